@@ -30,6 +30,7 @@ import { AnimatePresence, motion } from "motion/react";
 import { useState } from "react";
 import { LoginPage } from "./components/LoginPage";
 import { ProfileSetupModal } from "./components/ProfileSetupModal";
+import { RecoveryCodesDialog } from "./components/RecoveryCodesDialog";
 import { SettingsModal } from "./components/SettingsModal";
 import { useThemeContext } from "./components/ThemeProvider";
 import { useInternetIdentity } from "./hooks/useInternetIdentity";
@@ -38,8 +39,9 @@ import {
   useGetMyUsername,
   useGetNotifications,
   useGetUnreadMessageCount,
+  useIssuedRecoveryCodes,
 } from "./hooks/useQueries";
-import { FeedPage } from "./pages/FeedPage";
+import { FeedPage, type PostSearch } from "./pages/FeedPage";
 import { FriendsPage } from "./pages/FriendsPage";
 import { InviteEarnPage } from "./pages/InviteEarnPage";
 import { MessagesPage } from "./pages/MessagesPage";
@@ -83,7 +85,11 @@ export default function App() {
   const [activePage, setActivePage] = useState<Page>("feed");
   const [messagesInitialContact, setMessagesInitialContact] =
     useState<Principal | null>(null);
+  const [messagesInitialGroup, setMessagesInitialGroup] = useState<
+    bigint | null
+  >(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [postSearch, setPostSearch] = useState<PostSearch | null>(null);
   const { theme, setTheme } = useThemeContext();
 
   const {
@@ -93,6 +99,8 @@ export default function App() {
   } = useGetCallerUserProfile();
 
   const { data: myUsername } = useGetMyUsername();
+  const { codes: issuedRecoveryCodes, setCodes: setIssuedRecoveryCodes } =
+    useIssuedRecoveryCodes();
 
   const { data: notifications = [] } = useGetNotifications();
   const unreadCount = notifications.filter((n) => !n.read).length;
@@ -101,10 +109,22 @@ export default function App() {
   const unreadMessageCount = Number(unreadMessageCountRaw);
 
   const handleMessageSeller = (seller: Principal) => {
+    setMessagesInitialGroup(null);
     setMessagesInitialContact(seller);
     setActivePage("messages");
   };
 
+  const handleOpenGroup = (groupId: bigint) => {
+    setMessagesInitialContact(null);
+    setMessagesInitialGroup(groupId);
+    setActivePage("messages");
+  };
+
+  const handleOpenHashtag = (tag: string) => {
+    setPostSearch({ kind: "hashtag", tag });
+    setActivePage("feed");
+  };
+
   const showProfileSetup =
     isAuthenticated && !profileLoading && profileFetched && profile === null;
 
@@ -155,6 +175,13 @@ export default function App() {
         onClose={() => setSettingsOpen(false)}
       />
 
+      {/* Recovery codes issued at registration */}
+      <RecoveryCodesDialog
+        codes={issuedRecoveryCodes}
+        username={myUsername}
+        onClose={() => setIssuedRecoveryCodes(null)}
+      />
+
       {/* Profile Setup Modal */}
       <ProfileSetupModal open={showProfileSetup} defaultUsername={myUsername} />
 
@@ -408,6 +435,8 @@ export default function App() {
                   <FeedPage
                     currentProfile={profile ?? null}
                     onMessageUser={handleMessageSeller}
+                    postSearch={postSearch}
+                    onPostSearchChange={setPostSearch}
                   />
                 )}
                 {activePage === "friends" && <FriendsPage />}
@@ -417,13 +446,23 @@ export default function App() {
                 {activePage === "messages" && (
                   <MessagesPage
                     initialContact={messagesInitialContact ?? undefined}
+                    initialGroupId={messagesInitialGroup ?? undefined}
                   />
                 )}
                 {activePage === "reels" && <ReelsPage />}
-                {activePage === "notifications" && <NotificationsPage />}
+                {activePage === "notifications" && (
+                  <NotificationsPage
+                    onOpenPage={setActivePage}
+                    onOpenConversation={handleMessageSeller}
+                    onOpenGroup={handleOpenGroup}
+                  />
+                )}
                 {activePage === "invite" && <InviteEarnPage />}
                 {activePage === "profile" && (
-                  <ProfilePage onOpenSettings={() => setSettingsOpen(true)} />
+                  <ProfilePage
+                    onOpenSettings={() => setSettingsOpen(true)}
+                    onOpenHashtag={handleOpenHashtag}
+                  />
                 )}
               </motion.div>
             </AnimatePresence>
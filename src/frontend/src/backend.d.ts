@@ -21,23 +21,16 @@ export interface Reel {
     creatorId: Principal;
     timestamp: Time;
 }
-export interface DirectMessage {
-    id: bigint;
-    content: string;
-    read: boolean;
-    timestamp: Time;
-    recipientId: Principal;
-    senderId: Principal;
-}
-export interface WebRTCOffer {
-    sdp: string;
-    callee: Principal;
-    caller: Principal;
-}
-export interface WebRTCAnswer {
-    sdp: string;
-    callee: Principal;
-    caller: Principal;
+export interface Relationship {
+    friendRequestSent: boolean;
+    isBlocked: boolean;
+    blocksYou: boolean;
+    isFollowing: boolean;
+    isMuted: boolean;
+    friendStatus?: string;
+    mutualFriends: Array<Principal>;
+    followRequested: boolean;
+    followsYou: boolean;
 }
 export type Time = bigint;
 export interface GroupMessage {
@@ -47,6 +40,12 @@ export interface GroupMessage {
     timestamp: Time;
     senderId: Principal;
 }
+export interface PollResults {
+    closed: boolean;
+    callerVote?: Array<bigint>;
+    counts: Array<bigint>;
+    voterCount: bigint;
+}
 export interface ReferralStats {
     referralCode: string;
     balance: bigint;
@@ -60,13 +59,112 @@ export interface Group {
     creatorId: Principal;
     memberIds: Array<Principal>;
 }
+export interface Poll {
+    closesAt: Time;
+    multipleChoice: boolean;
+    options: Array<string>;
+}
+export interface CommentsPage {
+    comments: Array<CommentView>;
+    nextCursor?: bigint;
+}
+export interface ScheduledPost {
+    id: bigint;
+    media: Array<PostMedia>;
+    content: string;
+    publishAt: Time;
+    poll?: Poll;
+    author: Principal;
+    visibility: PostVisibility;
+}
+export interface Mention {
+    username: string;
+    user: Principal;
+}
+export interface Bookmark {
+    id: bigint;
+    collectionId?: bigint;
+    savedAt: Time;
+    postId: bigint;
+}
+export interface PostRevision {
+    media: Array<PostMedia>;
+    content: string;
+    timestamp: Time;
+}
+export interface PostsPage {
+    posts: Array<Post>;
+    nextCursor?: bigint;
+}
+export interface ReactorsPage {
+    nextCursor?: Principal;
+    reactors: Array<UserSearchResult>;
+}
+export interface Post {
+    id: bigint;
+    media: Array<PostMedia>;
+    content: string;
+    poll?: Poll;
+    quoteOf?: bigint;
+    author: Principal;
+    timestamp: Time;
+    mentions: Array<Mention>;
+    visibility: PostVisibility;
+    editedAt?: Time;
+    repostOf?: bigint;
+}
+export interface DirectMessage {
+    id: bigint;
+    content: string;
+    read: boolean;
+    timestamp: Time;
+    recipientId: Principal;
+    senderId: Principal;
+}
+export interface WebRTCOffer {
+    sdp: string;
+    callee: Principal;
+    caller: Principal;
+}
+export interface WebRTCAnswer {
+    sdp: string;
+    callee: Principal;
+    caller: Principal;
+}
+export interface FriendSuggestion {
+    username?: string;
+    sharedFollows: bigint;
+    user: Principal;
+    isFollowing: boolean;
+    mutualFriends: bigint;
+    profile: UserProfile;
+}
 export interface Comment {
     id: bigint;
     content: string;
+    parentCommentId?: bigint;
     author: Principal;
     timestamp: Time;
+    mentions: Array<Mention>;
     postId: bigint;
 }
+export interface PostMedia {
+    blob: ExternalBlob;
+    kind: MediaKind;
+}
+export interface UserSearchResult {
+    username?: string;
+    user: Principal;
+    isFollowing: boolean;
+    friendStatus?: string;
+    profile: UserProfile;
+}
+export interface CommentView {
+    likeCount: bigint;
+    comment: Comment;
+    replyCount: bigint;
+    likedByCaller: boolean;
+}
 export interface StoreListing {
     id: bigint;
     title: string;
@@ -76,103 +174,206 @@ export interface StoreListing {
     image?: ExternalBlob;
     price: string;
 }
-export interface Post {
+export interface BookmarkCollectionSummary {
+    collection: BookmarkCollection;
+    count: bigint;
+}
+export interface BookmarkCollection {
     id: bigint;
-    content: string;
-    author: Principal;
-    timestamp: Time;
-    image?: ExternalBlob;
+    owner: Principal;
+    name: string;
+    createdAt: Time;
 }
 export interface Notification {
     id: bigint;
+    listingId?: bigint;
+    kind: NotificationKind;
     read: boolean;
     recipient: Principal;
-    message: string;
+    actorId: Principal;
+    groupId?: bigint;
     timestamp: Time;
+    postId?: bigint;
+}
+export interface LoginResult {
+    success: boolean;
+    lockedUntil?: Time;
 }
 export interface UserProfile {
     bio: string;
     displayName: string;
     coverPhoto?: ExternalBlob;
     isProfessional: boolean;
+    isPrivate: boolean;
     professionalTitle?: string;
+    pinnedPostId?: bigint;
     avatar?: ExternalBlob;
 }
+export enum MediaKind {
+    video = "video",
+    image = "image"
+}
+export enum NotificationKind {
+    repost = "repost",
+    friendAccepted = "friendAccepted",
+    groupInvite = "groupInvite",
+    referralReward = "referralReward",
+    like = "like",
+    quote = "quote",
+    listingInquiry = "listingInquiry",
+    comment = "comment",
+    general = "general",
+    mention = "mention",
+    commentLike = "commentLike",
+    friendRequest = "friendRequest",
+    reply = "reply",
+    followRequest = "followRequest",
+    reaction = "reaction",
+    follow = "follow",
+    followAccepted = "followAccepted"
+}
+export enum PostVisibility {
+    everyone = "everyone",
+    followers = "followers",
+    friends = "friends",
+    onlyMe = "onlyMe"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
 export interface backendInterface {
-    addComment(postId: bigint, content: string): Promise<void>;
+    addComment(postId: bigint, content: string, replyTo: bigint | null): Promise<void>;
     addEmojiReaction(postId: bigint, emoji: string): Promise<void>;
     addGroupMember(groupId: bigint, memberId: Principal): Promise<void>;
     addICECandidate(callId: string, candidate: string): Promise<void>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    blockUser(user: Principal): Promise<void>;
+    bookmarkPost(postId: bigint, collectionId: bigint | null): Promise<void>;
+    cancelFollowRequest(user: Principal): Promise<void>;
+    cancelFriendRequest(to: Principal): Promise<void>;
+    cancelScheduledPost(scheduledPostId: bigint): Promise<void>;
+    changePassword(oldPassword: string, newPassword: string): Promise<void>;
     checkCallerHasLiked(postId: bigint): Promise<boolean>;
+    checkCallerHasReposted(postId: bigint): Promise<boolean>;
+    checkFollowRequested(user: Principal): Promise<boolean>;
     checkFriendRequestStatus(user: Principal): Promise<string | null>;
     checkUsernameAvailable(username: string): Promise<boolean>;
+    createBookmarkCollection(name: string): Promise<bigint>;
     createGroup(name: string): Promise<bigint>;
-    createPost(content: string, image: ExternalBlob | null): Promise<void>;
+    createPost(content: string, media: Array<PostMedia>, visibility: PostVisibility, poll: Poll | null): Promise<void>;
     createReel(title: string, video: ExternalBlob): Promise<bigint>;
     createStoreListing(title: string, description: string, price: string, image: ExternalBlob | null): Promise<void>;
+    deleteBookmarkCollection(collectionId: bigint): Promise<void>;
     deleteComment(commentId: bigint): Promise<void>;
     deleteGroup(groupId: bigint): Promise<void>;
     deletePost(postId: bigint): Promise<void>;
     deleteReel(id: bigint): Promise<void>;
     deleteStoreListing(id: bigint): Promise<void>;
+    dismissFriendSuggestion(user: Principal): Promise<void>;
+    editPost(postId: bigint, content: string, media: Array<PostMedia>): Promise<void>;
     endCall(callId: string): Promise<void>;
     followUser(user: Principal): Promise<void>;
     getAllPosts(): Promise<Array<Post>>;
     getAllReels(): Promise<Array<Reel>>;
     getAllStoreListings(): Promise<Array<StoreListing>>;
     getAllUsers(): Promise<Array<Principal>>;
+    getBlockedUsers(): Promise<Array<Principal>>;
+    getBookmark(postId: bigint): Promise<Bookmark | null>;
+    getBookmarkCollections(): Promise<Array<BookmarkCollectionSummary>>;
+    getBookmarks(collectionId: bigint | null, cursor: bigint | null): Promise<PostsPage>;
     getCallAnswer(callId: string): Promise<WebRTCAnswer | null>;
     getCallOffer(callId: string): Promise<WebRTCOffer | null>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
+    getCommentCount(postId: bigint): Promise<bigint>;
+    getComments(postId: bigint, parentCommentId: bigint | null, cursor: bigint | null, limit: bigint): Promise<CommentsPage>;
     getCommentsByPost(postId: bigint): Promise<Array<Comment>>;
     getConversation(otherUser: Principal): Promise<Array<DirectMessage>>;
     getConversations(): Promise<Array<Principal>>;
     getEmojiReactions(postId: bigint): Promise<Array<[string, bigint]>>;
+    getFollowRequests(): Promise<Array<{
+        from: Principal;
+        timestamp: Time;
+    }>>;
     getFollowers(user: Principal): Promise<Array<Principal>>;
     getFollowing(user: Principal): Promise<Array<Principal>>;
+    getFriendSuggestions(limit: bigint): Promise<Array<FriendSuggestion>>;
     getFriends(user: Principal): Promise<Array<Principal>>;
     getGroupById(groupId: bigint): Promise<Group | null>;
     getGroupMessages(groupId: bigint): Promise<Array<GroupMessage>>;
+    getHomeFeed(cursor: bigint | null, limit: bigint): Promise<PostsPage>;
     getICECandidates(callId: string, forPrincipal: Principal): Promise<Array<string>>;
     getLikesCount(postId: bigint): Promise<bigint>;
+    getMutedUsers(): Promise<Array<Principal>>;
     getMyBalance(): Promise<bigint>;
     getMyGroups(): Promise<Array<Group>>;
     getMyReferralCode(): Promise<string>;
+    getMyScheduledPosts(): Promise<Array<ScheduledPost>>;
     getMyUsername(): Promise<string | null>;
     getNotifications(): Promise<Array<Notification>>;
     getPendingFriendRequests(): Promise<Array<{
         from: Principal;
         timestamp: Time;
     }>>;
+    getPollResults(postId: bigint): Promise<PollResults>;
+    getPost(postId: bigint): Promise<Post | null>;
+    getPostReactors(postId: bigint, emoji: string | null, cursor: Principal | null): Promise<ReactorsPage>;
+    getPostRevisions(postId: bigint): Promise<Array<PostRevision>>;
+    getPostsByHashtag(tag: string, cursor: bigint | null): Promise<PostsPage>;
     getPostsByUser(user: Principal): Promise<Array<Post>>;
+    getPostsPage(cursor: bigint | null, limit: bigint): Promise<PostsPage>;
+    getRecoveryCodesRemaining(): Promise<bigint>;
     getReelsByUser(user: Principal): Promise<Array<Reel>>;
     getReferralStats(): Promise<ReferralStats>;
+    getRelationship(user: Principal): Promise<Relationship>;
+    getRepostCount(postId: bigint): Promise<bigint>;
+    getSentFriendRequests(): Promise<Array<{
+        to: Principal;
+        timestamp: Time;
+    }>>;
     getStoreListingsByUser(user: Principal): Promise<Array<StoreListing>>;
     getUnreadMessageCount(): Promise<bigint>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
     isCallerAdmin(): Promise<boolean>;
+    likeOrUnlikeComment(commentId: bigint): Promise<void>;
     likeOrUnlikePost(postId: bigint): Promise<void>;
-    loginWithCredentials(username: string, password: string): Promise<boolean>;
+    loginWithCredentials(username: string, password: string): Promise<LoginResult>;
     markAccountVerified(): Promise<void>;
     markConversationRead(otherUser: Principal): Promise<void>;
     markNotificationAsRead(id: bigint): Promise<void>;
+    muteUser(user: Principal): Promise<void>;
+    pinPost(postId: bigint): Promise<void>;
+    quotePost(postId: bigint, content: string): Promise<void>;
     redeemReferralCode(code: string): Promise<void>;
-    registerWithCredentials(username: string, password: string): Promise<void>;
+    regenerateRecoveryCodes(): Promise<Array<string>>;
+    registerWithCredentials(username: string, password: string): Promise<Array<string>>;
     removeEmojiReaction(postId: bigint, emoji: string): Promise<void>;
+    removeFriend(user: Principal): Promise<void>;
     removeGroupMember(groupId: bigint, memberId: Principal): Promise<void>;
+    renameBookmarkCollection(collectionId: bigint, name: string): Promise<void>;
+    repost(postId: bigint): Promise<void>;
+    reschedulePost(scheduledPostId: bigint, publishAt: Time): Promise<void>;
+    resetPasswordWithRecoveryCode(username: string, code: string, newPassword: string): Promise<boolean>;
+    respondToFollowRequest(from: Principal, accept: boolean): Promise<void>;
     respondToFriendRequest(from: Principal, accept: boolean): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    schedulePost(content: string, media: Array<PostMedia>, visibility: PostVisibility, poll: Poll | null, publishAt: Time): Promise<bigint>;
+    searchPosts(term: string, cursor: bigint | null): Promise<PostsPage>;
+    searchUsernames(prefix: string, limit: bigint): Promise<Array<UserSearchResult>>;
+    searchUsers(term: string, limit: bigint): Promise<Array<UserSearchResult>>;
     sendFriendRequest(to: Principal): Promise<void>;
     sendGroupMessage(groupId: bigint, content: string): Promise<bigint>;
+    sendListingInquiry(listingId: bigint, content: string): Promise<bigint>;
     sendMessage(recipientId: Principal, content: string): Promise<bigint>;
     storeCallAnswer(callId: string, sdp: string): Promise<void>;
     storeCallOffer(callId: string, sdp: string, callee: Principal): Promise<void>;
+    unblockUser(user: Principal): Promise<void>;
+    unbookmarkPost(postId: bigint): Promise<void>;
+    undoRepost(postId: bigint): Promise<void>;
     unfollowUser(user: Principal): Promise<void>;
+    unmuteUser(user: Principal): Promise<void>;
+    unpinPost(): Promise<void>;
+    votePoll(postId: bigint, optionIndexes: Array<bigint>): Promise<void>;
 }
@@ -96,28 +96,18 @@ export interface Reel {
     creatorId: Principal;
     timestamp: Time;
 }
-export interface DirectMessage {
-    id: bigint;
-    content: string;
-    read: boolean;
-    timestamp: Time;
-    recipientId: Principal;
-    senderId: Principal;
-}
-export interface WebRTCOffer {
-    sdp: string;
-    callee: Principal;
-    caller: Principal;
-}
-export interface WebRTCAnswer {
-    sdp: string;
-    callee: Principal;
-    caller: Principal;
+export interface Relationship {
+    friendRequestSent: boolean;
+    isBlocked: boolean;
+    blocksYou: boolean;
+    isFollowing: boolean;
+    isMuted: boolean;
+    friendStatus?: string;
+    mutualFriends: Array<Principal>;
+    followRequested: boolean;
+    followsYou: boolean;
 }
 export type Time = bigint;
-export interface _CaffeineStorageRefillInformation {
-    proposed_top_up_amount?: bigint;
-}
 export interface GroupMessage {
     id: bigint;
     content: string;
@@ -125,6 +115,15 @@ export interface GroupMessage {
     timestamp: Time;
     senderId: Principal;
 }
+export interface _CaffeineStorageRefillInformation {
+    proposed_top_up_amount?: bigint;
+}
+export interface PollResults {
+    closed: boolean;
+    callerVote?: Array<bigint>;
+    counts: Array<bigint>;
+    voterCount: bigint;
+}
 export interface ReferralStats {
     referralCode: string;
     balance: bigint;
@@ -142,13 +141,112 @@ export interface Group {
     creatorId: Principal;
     memberIds: Array<Principal>;
 }
+export interface Poll {
+    closesAt: Time;
+    multipleChoice: boolean;
+    options: Array<string>;
+}
+export interface CommentsPage {
+    comments: Array<CommentView>;
+    nextCursor?: bigint;
+}
+export interface ScheduledPost {
+    id: bigint;
+    media: Array<PostMedia>;
+    content: string;
+    publishAt: Time;
+    poll?: Poll;
+    author: Principal;
+    visibility: PostVisibility;
+}
+export interface Mention {
+    username: string;
+    user: Principal;
+}
+export interface Bookmark {
+    id: bigint;
+    collectionId?: bigint;
+    savedAt: Time;
+    postId: bigint;
+}
+export interface PostRevision {
+    media: Array<PostMedia>;
+    content: string;
+    timestamp: Time;
+}
+export interface PostsPage {
+    posts: Array<Post>;
+    nextCursor?: bigint;
+}
+export interface ReactorsPage {
+    nextCursor?: Principal;
+    reactors: Array<UserSearchResult>;
+}
+export interface Post {
+    id: bigint;
+    media: Array<PostMedia>;
+    content: string;
+    poll?: Poll;
+    quoteOf?: bigint;
+    author: Principal;
+    timestamp: Time;
+    mentions: Array<Mention>;
+    visibility: PostVisibility;
+    editedAt?: Time;
+    repostOf?: bigint;
+}
+export interface DirectMessage {
+    id: bigint;
+    content: string;
+    read: boolean;
+    timestamp: Time;
+    recipientId: Principal;
+    senderId: Principal;
+}
+export interface WebRTCOffer {
+    sdp: string;
+    callee: Principal;
+    caller: Principal;
+}
+export interface WebRTCAnswer {
+    sdp: string;
+    callee: Principal;
+    caller: Principal;
+}
+export interface FriendSuggestion {
+    username?: string;
+    sharedFollows: bigint;
+    user: Principal;
+    isFollowing: boolean;
+    mutualFriends: bigint;
+    profile: UserProfile;
+}
 export interface Comment {
     id: bigint;
     content: string;
+    parentCommentId?: bigint;
     author: Principal;
     timestamp: Time;
+    mentions: Array<Mention>;
     postId: bigint;
 }
+export interface PostMedia {
+    blob: ExternalBlob;
+    kind: MediaKind;
+}
+export interface UserSearchResult {
+    username?: string;
+    user: Principal;
+    isFollowing: boolean;
+    friendStatus?: string;
+    profile: UserProfile;
+}
+export interface CommentView {
+    likeCount: bigint;
+    comment: Comment;
+    replyCount: bigint;
+    likedByCaller: boolean;
+}
 export interface StoreListing {
     id: bigint;
     title: string;
@@ -158,32 +256,74 @@ export interface StoreListing {
     image?: ExternalBlob;
     price: string;
 }
-export interface Post {
+export interface BookmarkCollectionSummary {
+    collection: BookmarkCollection;
+    count: bigint;
+}
+export interface BookmarkCollection {
     id: bigint;
-    content: string;
-    author: Principal;
-    timestamp: Time;
-    image?: ExternalBlob;
+    owner: Principal;
+    name: string;
+    createdAt: Time;
 }
 export interface Notification {
     id: bigint;
+    listingId?: bigint;
+    kind: NotificationKind;
     read: boolean;
     recipient: Principal;
-    message: string;
+    actorId: Principal;
+    groupId?: bigint;
     timestamp: Time;
+    postId?: bigint;
+}
+export interface LoginResult {
+    success: boolean;
+    lockedUntil?: Time;
 }
 export interface UserProfile {
     bio: string;
     displayName: string;
     coverPhoto?: ExternalBlob;
     isProfessional: boolean;
+    isPrivate: boolean;
     professionalTitle?: string;
+    pinnedPostId?: bigint;
     avatar?: ExternalBlob;
 }
 export interface _CaffeineStorageRefillResult {
     success?: boolean;
     topped_up_amount?: bigint;
 }
+export enum MediaKind {
+    video = "video",
+    image = "image"
+}
+export enum NotificationKind {
+    repost = "repost",
+    friendAccepted = "friendAccepted",
+    groupInvite = "groupInvite",
+    referralReward = "referralReward",
+    like = "like",
+    quote = "quote",
+    listingInquiry = "listingInquiry",
+    comment = "comment",
+    general = "general",
+    mention = "mention",
+    commentLike = "commentLike",
+    friendRequest = "friendRequest",
+    reply = "reply",
+    followRequest = "followRequest",
+    reaction = "reaction",
+    follow = "follow",
+    followAccepted = "followAccepted"
+}
+export enum PostVisibility {
+    everyone = "everyone",
+    followers = "followers",
+    friends = "friends",
+    onlyMe = "onlyMe"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -197,79 +337,140 @@ export interface backendInterface {
     _caffeineStorageRefillCashier(refillInformation: _CaffeineStorageRefillInformation | null): Promise<_CaffeineStorageRefillResult>;
     _caffeineStorageUpdateGatewayPrincipals(): Promise<void>;
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
-    addComment(postId: bigint, content: string): Promise<void>;
+    addComment(postId: bigint, content: string, replyTo: bigint | null): Promise<void>;
     addEmojiReaction(postId: bigint, emoji: string): Promise<void>;
     addGroupMember(groupId: bigint, memberId: Principal): Promise<void>;
     addICECandidate(callId: string, candidate: string): Promise<void>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    blockUser(user: Principal): Promise<void>;
+    bookmarkPost(postId: bigint, collectionId: bigint | null): Promise<void>;
+    cancelFollowRequest(user: Principal): Promise<void>;
+    cancelFriendRequest(to: Principal): Promise<void>;
+    cancelScheduledPost(scheduledPostId: bigint): Promise<void>;
+    changePassword(oldPassword: string, newPassword: string): Promise<void>;
     checkCallerHasLiked(postId: bigint): Promise<boolean>;
+    checkCallerHasReposted(postId: bigint): Promise<boolean>;
+    checkFollowRequested(user: Principal): Promise<boolean>;
     checkFriendRequestStatus(user: Principal): Promise<string | null>;
     checkUsernameAvailable(username: string): Promise<boolean>;
+    createBookmarkCollection(name: string): Promise<bigint>;
     createGroup(name: string): Promise<bigint>;
-    createPost(content: string, image: ExternalBlob | null): Promise<void>;
+    createPost(content: string, media: Array<PostMedia>, visibility: PostVisibility, poll: Poll | null): Promise<void>;
     createReel(title: string, video: ExternalBlob): Promise<bigint>;
     createStoreListing(title: string, description: string, price: string, image: ExternalBlob | null): Promise<void>;
+    deleteBookmarkCollection(collectionId: bigint): Promise<void>;
     deleteComment(commentId: bigint): Promise<void>;
     deleteGroup(groupId: bigint): Promise<void>;
     deletePost(postId: bigint): Promise<void>;
     deleteReel(id: bigint): Promise<void>;
     deleteStoreListing(id: bigint): Promise<void>;
+    dismissFriendSuggestion(user: Principal): Promise<void>;
+    editPost(postId: bigint, content: string, media: Array<PostMedia>): Promise<void>;
     endCall(callId: string): Promise<void>;
     followUser(user: Principal): Promise<void>;
     getAllPosts(): Promise<Array<Post>>;
     getAllReels(): Promise<Array<Reel>>;
     getAllStoreListings(): Promise<Array<StoreListing>>;
     getAllUsers(): Promise<Array<Principal>>;
+    getBlockedUsers(): Promise<Array<Principal>>;
+    getBookmark(postId: bigint): Promise<Bookmark | null>;
+    getBookmarkCollections(): Promise<Array<BookmarkCollectionSummary>>;
+    getBookmarks(collectionId: bigint | null, cursor: bigint | null): Promise<PostsPage>;
     getCallAnswer(callId: string): Promise<WebRTCAnswer | null>;
     getCallOffer(callId: string): Promise<WebRTCOffer | null>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
+    getCommentCount(postId: bigint): Promise<bigint>;
+    getComments(postId: bigint, parentCommentId: bigint | null, cursor: bigint | null, limit: bigint): Promise<CommentsPage>;
     getCommentsByPost(postId: bigint): Promise<Array<Comment>>;
     getConversation(otherUser: Principal): Promise<Array<DirectMessage>>;
     getConversations(): Promise<Array<Principal>>;
     getEmojiReactions(postId: bigint): Promise<Array<[string, bigint]>>;
+    getFollowRequests(): Promise<Array<{
+        from: Principal;
+        timestamp: Time;
+    }>>;
     getFollowers(user: Principal): Promise<Array<Principal>>;
     getFollowing(user: Principal): Promise<Array<Principal>>;
+    getFriendSuggestions(limit: bigint): Promise<Array<FriendSuggestion>>;
     getFriends(user: Principal): Promise<Array<Principal>>;
     getGroupById(groupId: bigint): Promise<Group | null>;
     getGroupMessages(groupId: bigint): Promise<Array<GroupMessage>>;
+    getHomeFeed(cursor: bigint | null, limit: bigint): Promise<PostsPage>;
     getICECandidates(callId: string, forPrincipal: Principal): Promise<Array<string>>;
     getLikesCount(postId: bigint): Promise<bigint>;
+    getMutedUsers(): Promise<Array<Principal>>;
     getMyBalance(): Promise<bigint>;
     getMyGroups(): Promise<Array<Group>>;
     getMyReferralCode(): Promise<string>;
+    getMyScheduledPosts(): Promise<Array<ScheduledPost>>;
     getMyUsername(): Promise<string | null>;
     getNotifications(): Promise<Array<Notification>>;
     getPendingFriendRequests(): Promise<Array<{
         from: Principal;
         timestamp: Time;
     }>>;
+    getPollResults(postId: bigint): Promise<PollResults>;
+    getPost(postId: bigint): Promise<Post | null>;
+    getPostReactors(postId: bigint, emoji: string | null, cursor: Principal | null): Promise<ReactorsPage>;
+    getPostRevisions(postId: bigint): Promise<Array<PostRevision>>;
+    getPostsByHashtag(tag: string, cursor: bigint | null): Promise<PostsPage>;
     getPostsByUser(user: Principal): Promise<Array<Post>>;
+    getPostsPage(cursor: bigint | null, limit: bigint): Promise<PostsPage>;
+    getRecoveryCodesRemaining(): Promise<bigint>;
     getReelsByUser(user: Principal): Promise<Array<Reel>>;
     getReferralStats(): Promise<ReferralStats>;
+    getRelationship(user: Principal): Promise<Relationship>;
+    getRepostCount(postId: bigint): Promise<bigint>;
+    getSentFriendRequests(): Promise<Array<{
+        to: Principal;
+        timestamp: Time;
+    }>>;
     getStoreListingsByUser(user: Principal): Promise<Array<StoreListing>>;
     getUnreadMessageCount(): Promise<bigint>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
     isCallerAdmin(): Promise<boolean>;
+    likeOrUnlikeComment(commentId: bigint): Promise<void>;
     likeOrUnlikePost(postId: bigint): Promise<void>;
-    loginWithCredentials(username: string, password: string): Promise<boolean>;
+    loginWithCredentials(username: string, password: string): Promise<LoginResult>;
     markAccountVerified(): Promise<void>;
     markConversationRead(otherUser: Principal): Promise<void>;
     markNotificationAsRead(id: bigint): Promise<void>;
+    muteUser(user: Principal): Promise<void>;
+    pinPost(postId: bigint): Promise<void>;
+    quotePost(postId: bigint, content: string): Promise<void>;
     redeemReferralCode(code: string): Promise<void>;
-    registerWithCredentials(username: string, password: string): Promise<void>;
+    regenerateRecoveryCodes(): Promise<Array<string>>;
+    registerWithCredentials(username: string, password: string): Promise<Array<string>>;
     removeEmojiReaction(postId: bigint, emoji: string): Promise<void>;
+    removeFriend(user: Principal): Promise<void>;
     removeGroupMember(groupId: bigint, memberId: Principal): Promise<void>;
+    renameBookmarkCollection(collectionId: bigint, name: string): Promise<void>;
+    repost(postId: bigint): Promise<void>;
+    reschedulePost(scheduledPostId: bigint, publishAt: Time): Promise<void>;
+    resetPasswordWithRecoveryCode(username: string, code: string, newPassword: string): Promise<boolean>;
+    respondToFollowRequest(from: Principal, accept: boolean): Promise<void>;
     respondToFriendRequest(from: Principal, accept: boolean): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    schedulePost(content: string, media: Array<PostMedia>, visibility: PostVisibility, poll: Poll | null, publishAt: Time): Promise<bigint>;
+    searchPosts(term: string, cursor: bigint | null): Promise<PostsPage>;
+    searchUsernames(prefix: string, limit: bigint): Promise<Array<UserSearchResult>>;
+    searchUsers(term: string, limit: bigint): Promise<Array<UserSearchResult>>;
     sendFriendRequest(to: Principal): Promise<void>;
     sendGroupMessage(groupId: bigint, content: string): Promise<bigint>;
+    sendListingInquiry(listingId: bigint, content: string): Promise<bigint>;
     sendMessage(recipientId: Principal, content: string): Promise<bigint>;
     storeCallAnswer(callId: string, sdp: string): Promise<void>;
     storeCallOffer(callId: string, sdp: string, callee: Principal): Promise<void>;
+    unblockUser(user: Principal): Promise<void>;
+    unbookmarkPost(postId: bigint): Promise<void>;
+    undoRepost(postId: bigint): Promise<void>;
     unfollowUser(user: Principal): Promise<void>;
+    unmuteUser(user: Principal): Promise<void>;
+    unpinPost(): Promise<void>;
+    votePoll(postId: bigint, optionIndexes: Array<bigint>): Promise<void>;
 }
-import type { ExternalBlob as _ExternalBlob, Group as _Group, Post as _Post, Reel as _Reel, StoreListing as _StoreListing, Time as _Time, UserProfile as _UserProfile, UserRole as _UserRole, WebRTCAnswer as _WebRTCAnswer, WebRTCOffer as _WebRTCOffer, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { Bookmark as _Bookmark, Comment as _Comment, CommentView as _CommentView, CommentsPage as _CommentsPage, ExternalBlob as _ExternalBlob, FriendSuggestion as _FriendSuggestion, Group as _Group, LoginResult as _LoginResult, MediaKind as _MediaKind, Mention as _Mention, Notification as _Notification, NotificationKind as _NotificationKind, Poll as _Poll, PollResults as _PollResults, Post as _Post, PostMedia as _PostMedia, PostRevision as _PostRevision, PostVisibility as _PostVisibility, PostsPage as _PostsPage, ReactorsPage as _ReactorsPage, Reel as _Reel, Relationship as _Relationship, ScheduledPost as _ScheduledPost, StoreListing as _StoreListing, Time as _Time, UserProfile as _UserProfile, UserRole as _UserRole, UserSearchResult as _UserSearchResult, WebRTCAnswer as _WebRTCAnswer, WebRTCOffer as _WebRTCOffer, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -370,17 +571,17 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addComment(arg0: bigint, arg1: string): Promise<void> {
+    async addComment(arg0: bigint, arg1: string, arg2: bigint | null): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.addComment(arg0, arg1);
+                const result = await this.actor.addComment(arg0, arg1, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg2));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addComment(arg0, arg1);
+            const result = await this.actor.addComment(arg0, arg1, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg2));
             return result;
         }
     }
@@ -429,970 +630,1848 @@ export class Backend implements backendInterface {
     async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n8(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n9(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n8(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n9(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
-    async checkCallerHasLiked(arg0: bigint): Promise<boolean> {
+    async blockUser(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.checkCallerHasLiked(arg0);
+                const result = await this.actor.blockUser(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.checkCallerHasLiked(arg0);
+            const result = await this.actor.blockUser(arg0);
             return result;
         }
     }
-    async checkFriendRequestStatus(arg0: Principal): Promise<string | null> {
+    async bookmarkPost(arg0: bigint, arg1: bigint | null): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.checkFriendRequestStatus(arg0);
-                return from_candid_opt_n10(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.bookmarkPost(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.checkFriendRequestStatus(arg0);
-            return from_candid_opt_n10(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.bookmarkPost(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+            return result;
         }
     }
-    async checkUsernameAvailable(arg0: string): Promise<boolean> {
+    async cancelFollowRequest(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.checkUsernameAvailable(arg0);
+                const result = await this.actor.cancelFollowRequest(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.checkUsernameAvailable(arg0);
+            const result = await this.actor.cancelFollowRequest(arg0);
             return result;
         }
     }
-    async createGroup(arg0: string): Promise<bigint> {
+    async cancelFriendRequest(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.createGroup(arg0);
+                const result = await this.actor.cancelFriendRequest(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createGroup(arg0);
+            const result = await this.actor.cancelFriendRequest(arg0);
             return result;
         }
     }
-    async createPost(arg0: string, arg1: ExternalBlob | null): Promise<void> {
+    async cancelScheduledPost(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.createPost(arg0, await to_candid_opt_n11(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.cancelScheduledPost(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createPost(arg0, await to_candid_opt_n11(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.cancelScheduledPost(arg0);
             return result;
         }
     }
-    async createReel(arg0: string, arg1: ExternalBlob): Promise<bigint> {
+    async changePassword(arg0: string, arg1: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.createReel(arg0, await to_candid_ExternalBlob_n12(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.changePassword(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createReel(arg0, await to_candid_ExternalBlob_n12(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.changePassword(arg0, arg1);
             return result;
         }
     }
-    async createStoreListing(arg0: string, arg1: string, arg2: string, arg3: ExternalBlob | null): Promise<void> {
+    async checkCallerHasLiked(arg0: bigint): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.createStoreListing(arg0, arg1, arg2, await to_candid_opt_n11(this._uploadFile, this._downloadFile, arg3));
+                const result = await this.actor.checkCallerHasLiked(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createStoreListing(arg0, arg1, arg2, await to_candid_opt_n11(this._uploadFile, this._downloadFile, arg3));
+            const result = await this.actor.checkCallerHasLiked(arg0);
             return result;
         }
     }
-    async deleteComment(arg0: bigint): Promise<void> {
+    async checkCallerHasReposted(arg0: bigint): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteComment(arg0);
+                const result = await this.actor.checkCallerHasReposted(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteComment(arg0);
+            const result = await this.actor.checkCallerHasReposted(arg0);
             return result;
         }
     }
-    async deleteGroup(arg0: bigint): Promise<void> {
+    async checkFollowRequested(arg0: Principal): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteGroup(arg0);
+                const result = await this.actor.checkFollowRequested(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteGroup(arg0);
+            const result = await this.actor.checkFollowRequested(arg0);
             return result;
         }
     }
-    async deletePost(arg0: bigint): Promise<void> {
+    async checkFriendRequestStatus(arg0: Principal): Promise<string | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.deletePost(arg0);
-                return result;
+                const result = await this.actor.checkFriendRequestStatus(arg0);
+                return from_candid_opt_n11(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deletePost(arg0);
-            return result;
+            const result = await this.actor.checkFriendRequestStatus(arg0);
+            return from_candid_opt_n11(this._uploadFile, this._downloadFile, result);
         }
     }
-    async deleteReel(arg0: bigint): Promise<void> {
+    async checkUsernameAvailable(arg0: string): Promise<boolean> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteReel(arg0);
+                const result = await this.actor.checkUsernameAvailable(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteReel(arg0);
+            const result = await this.actor.checkUsernameAvailable(arg0);
             return result;
         }
     }
-    async deleteStoreListing(arg0: bigint): Promise<void> {
+    async createBookmarkCollection(arg0: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.deleteStoreListing(arg0);
+                const result = await this.actor.createBookmarkCollection(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.deleteStoreListing(arg0);
+            const result = await this.actor.createBookmarkCollection(arg0);
             return result;
         }
     }
-    async endCall(arg0: string): Promise<void> {
+    async createGroup(arg0: string): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.endCall(arg0);
+                const result = await this.actor.createGroup(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.endCall(arg0);
+            const result = await this.actor.createGroup(arg0);
             return result;
         }
     }
-    async followUser(arg0: Principal): Promise<void> {
+    async createPost(arg0: string, arg1: Array<PostMedia>, arg2: PostVisibility, arg3: Poll | null): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.followUser(arg0);
+                const result = await this.actor.createPost(arg0, await to_candid_vec_n12(this._uploadFile, this._downloadFile, arg1), to_candid_PostVisibility_n18(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n20(this._uploadFile, this._downloadFile, arg3));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.followUser(arg0);
+            const result = await this.actor.createPost(arg0, await to_candid_vec_n12(this._uploadFile, this._downloadFile, arg1), to_candid_PostVisibility_n18(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n20(this._uploadFile, this._downloadFile, arg3));
             return result;
         }
     }
-    async getAllPosts(): Promise<Array<Post>> {
+    async createReel(arg0: string, arg1: ExternalBlob): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllPosts();
-                return from_candid_vec_n13(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createReel(arg0, await to_candid_ExternalBlob_n15(this._uploadFile, this._downloadFile, arg1));
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllPosts();
-            return from_candid_vec_n13(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createReel(arg0, await to_candid_ExternalBlob_n15(this._uploadFile, this._downloadFile, arg1));
+            return result;
         }
     }
-    async getAllReels(): Promise<Array<Reel>> {
+    async createStoreListing(arg0: string, arg1: string, arg2: string, arg3: ExternalBlob | null): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllReels();
-                return from_candid_vec_n18(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.createStoreListing(arg0, arg1, arg2, await to_candid_opt_n21(this._uploadFile, this._downloadFile, arg3));
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllReels();
-            return from_candid_vec_n18(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.createStoreListing(arg0, arg1, arg2, await to_candid_opt_n21(this._uploadFile, this._downloadFile, arg3));
+            return result;
         }
     }
-    async getAllStoreListings(): Promise<Array<StoreListing>> {
+    async deleteBookmarkCollection(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllStoreListings();
-                return from_candid_vec_n21(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteBookmarkCollection(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllStoreListings();
-            return from_candid_vec_n21(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteBookmarkCollection(arg0);
+            return result;
         }
     }
-    async getAllUsers(): Promise<Array<Principal>> {
+    async deleteComment(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getAllUsers();
+                const result = await this.actor.deleteComment(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getAllUsers();
+            const result = await this.actor.deleteComment(arg0);
             return result;
         }
     }
-    async getCallAnswer(arg0: string): Promise<WebRTCAnswer | null> {
+    async deleteGroup(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallAnswer(arg0);
-                return from_candid_opt_n24(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteGroup(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallAnswer(arg0);
-            return from_candid_opt_n24(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteGroup(arg0);
+            return result;
         }
     }
-    async getCallOffer(arg0: string): Promise<WebRTCOffer | null> {
+    async deletePost(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallOffer(arg0);
-                return from_candid_opt_n25(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deletePost(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallOffer(arg0);
-            return from_candid_opt_n25(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deletePost(arg0);
+            return result;
         }
     }
-    async getCallerUserProfile(): Promise<UserProfile | null> {
+    async deleteReel(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserProfile();
-                return from_candid_opt_n26(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteReel(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserProfile();
-            return from_candid_opt_n26(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteReel(arg0);
+            return result;
         }
     }
-    async getCallerUserRole(): Promise<UserRole> {
+    async deleteStoreListing(arg0: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n29(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteStoreListing(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n29(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteStoreListing(arg0);
+            return result;
         }
     }
-    async getCommentsByPost(arg0: bigint): Promise<Array<Comment>> {
+    async dismissFriendSuggestion(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCommentsByPost(arg0);
+                const result = await this.actor.dismissFriendSuggestion(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCommentsByPost(arg0);
+            const result = await this.actor.dismissFriendSuggestion(arg0);
             return result;
         }
     }
-    async getConversation(arg0: Principal): Promise<Array<DirectMessage>> {
+    async editPost(arg0: bigint, arg1: string, arg2: Array<PostMedia>): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getConversation(arg0);
+                const result = await this.actor.editPost(arg0, arg1, await to_candid_vec_n12(this._uploadFile, this._downloadFile, arg2));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getConversation(arg0);
+            const result = await this.actor.editPost(arg0, arg1, await to_candid_vec_n12(this._uploadFile, this._downloadFile, arg2));
             return result;
         }
     }
-    async getConversations(): Promise<Array<Principal>> {
+    async endCall(arg0: string): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getConversations();
+                const result = await this.actor.endCall(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getConversations();
+            const result = await this.actor.endCall(arg0);
             return result;
         }
     }
-    async getEmojiReactions(arg0: bigint): Promise<Array<[string, bigint]>> {
+    async followUser(arg0: Principal): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.getEmojiReactions(arg0);
+                const result = await this.actor.followUser(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getEmojiReactions(arg0);
+            const result = await this.actor.followUser(arg0);
             return result;
         }
     }
-    async getFollowers(arg0: Principal): Promise<Array<Principal>> {
+    async getAllPosts(): Promise<Array<Post>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getFollowers(arg0);
-                return result;
+                const result = await this.actor.getAllPosts();
+                return from_candid_vec_n22(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getFollowers(arg0);
-            return result;
+            const result = await this.actor.getAllPosts();
+            return from_candid_vec_n22(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getFollowing(arg0: Principal): Promise<Array<Principal>> {
+    async getAllReels(): Promise<Array<Reel>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getFollowing(arg0);
-                return result;
+                const result = await this.actor.getAllReels();
+                return from_candid_vec_n35(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getFollowing(arg0);
-            return result;
+            const result = await this.actor.getAllReels();
+            return from_candid_vec_n35(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getFriends(arg0: Principal): Promise<Array<Principal>> {
+    async getAllStoreListings(): Promise<Array<StoreListing>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getFriends(arg0);
-                return result;
+                const result = await this.actor.getAllStoreListings();
+                return from_candid_vec_n38(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getFriends(arg0);
-            return result;
+            const result = await this.actor.getAllStoreListings();
+            return from_candid_vec_n38(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getGroupById(arg0: bigint): Promise<Group | null> {
+    async getAllUsers(): Promise<Array<Principal>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getGroupById(arg0);
-                return from_candid_opt_n31(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getAllUsers();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getGroupById(arg0);
-            return from_candid_opt_n31(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getAllUsers();
+            return result;
         }
     }
-    async getGroupMessages(arg0: bigint): Promise<Array<GroupMessage>> {
+    async getBlockedUsers(): Promise<Array<Principal>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getGroupMessages(arg0);
+                const result = await this.actor.getBlockedUsers();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getGroupMessages(arg0);
+            const result = await this.actor.getBlockedUsers();
             return result;
         }
     }
-    async getICECandidates(arg0: string, arg1: Principal): Promise<Array<string>> {
+    async getBookmark(arg0: bigint): Promise<Bookmark | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.getICECandidates(arg0, arg1);
-                return result;
+                const result = await this.actor.getBookmark(arg0);
+                return from_candid_opt_n42(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getICECandidates(arg0, arg1);
-            return result;
+            const result = await this.actor.getBookmark(arg0);
+            return from_candid_opt_n42(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getLikesCount(arg0: bigint): Promise<bigint> {
+    async getBookmarkCollections(): Promise<Array<BookmarkCollectionSummary>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getLikesCount(arg0);
+                const result = await this.actor.getBookmarkCollections();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getLikesCount(arg0);
+            const result = await this.actor.getBookmarkCollections();
             return result;
         }
     }
-    async getMyBalance(): Promise<bigint> {
+    async getBookmarks(arg0: bigint | null, arg1: bigint | null): Promise<PostsPage> {
         if (this.processError) {
             try {
-                const result = await this.actor.getMyBalance();
-                return result;
+                const result = await this.actor.getBookmarks(to_candid_opt_n8(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getMyBalance();
-            return result;
+            const result = await this.actor.getBookmarks(to_candid_opt_n8(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getMyGroups(): Promise<Array<Group>> {
+    async getCallAnswer(arg0: string): Promise<WebRTCAnswer | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.getMyGroups();
+                const result = await this.actor.getCallAnswer(arg0);
+                return from_candid_opt_n47(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallAnswer(arg0);
+            return from_candid_opt_n47(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallOffer(arg0: string): Promise<WebRTCOffer | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallOffer(arg0);
+                return from_candid_opt_n48(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallOffer(arg0);
+            return from_candid_opt_n48(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerUserProfile(): Promise<UserProfile | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerUserProfile();
+                return from_candid_opt_n49(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerUserProfile();
+            return from_candid_opt_n49(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerUserRole(): Promise<UserRole> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerUserRole();
+                return from_candid_UserRole_n52(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerUserRole();
+            return from_candid_UserRole_n52(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCommentCount(arg0: bigint): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCommentCount(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getMyGroups();
+            const result = await this.actor.getCommentCount(arg0);
             return result;
         }
     }
-    async getMyReferralCode(): Promise<string> {
+    async getComments(arg0: bigint, arg1: bigint | null, arg2: bigint | null, arg3: bigint): Promise<CommentsPage> {
         if (this.processError) {
             try {
-                const result = await this.actor.getMyReferralCode();
+                const result = await this.actor.getComments(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n8(this._uploadFile, this._downloadFile, arg2), arg3);
+                return from_candid_CommentsPage_n54(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getComments(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n8(this._uploadFile, this._downloadFile, arg2), arg3);
+            return from_candid_CommentsPage_n54(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCommentsByPost(arg0: bigint): Promise<Array<Comment>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCommentsByPost(arg0);
+                return from_candid_vec_n61(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCommentsByPost(arg0);
+            return from_candid_vec_n61(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getConversation(arg0: Principal): Promise<Array<DirectMessage>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getConversation(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getMyReferralCode();
+            const result = await this.actor.getConversation(arg0);
             return result;
         }
     }
-    async getMyUsername(): Promise<string | null> {
+    async getConversations(): Promise<Array<Principal>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getMyUsername();
-                return from_candid_opt_n10(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getConversations();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getMyUsername();
-            return from_candid_opt_n10(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getConversations();
+            return result;
         }
     }
-    async getNotifications(): Promise<Array<Notification>> {
+    async getEmojiReactions(arg0: bigint): Promise<Array<[string, bigint]>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getNotifications();
+                const result = await this.actor.getEmojiReactions(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getNotifications();
+            const result = await this.actor.getEmojiReactions(arg0);
             return result;
         }
     }
-    async getPendingFriendRequests(): Promise<Array<{
+    async getFollowRequests(): Promise<Array<{
         from: Principal;
         timestamp: Time;
     }>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPendingFriendRequests();
+                const result = await this.actor.getFollowRequests();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPendingFriendRequests();
+            const result = await this.actor.getFollowRequests();
             return result;
         }
     }
-    async getPostsByUser(arg0: Principal): Promise<Array<Post>> {
+    async getFollowers(arg0: Principal): Promise<Array<Principal>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPostsByUser(arg0);
-                return from_candid_vec_n13(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getFollowers(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPostsByUser(arg0);
-            return from_candid_vec_n13(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getFollowers(arg0);
+            return result;
         }
     }
-    async getReelsByUser(arg0: Principal): Promise<Array<Reel>> {
+    async getFollowing(arg0: Principal): Promise<Array<Principal>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getReelsByUser(arg0);
-                return from_candid_vec_n18(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getFollowing(arg0);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getReelsByUser(arg0);
-            return from_candid_vec_n18(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getFollowing(arg0);
+            return result;
         }
     }
-    async getReferralStats(): Promise<ReferralStats> {
+    async getFriendSuggestions(arg0: bigint): Promise<Array<FriendSuggestion>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getReferralStats();
+                const result = await this.actor.getFriendSuggestions(arg0);
+                return from_candid_vec_n62(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getFriendSuggestions(arg0);
+            return from_candid_vec_n62(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getFriends(arg0: Principal): Promise<Array<Principal>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getFriends(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getReferralStats();
+            const result = await this.actor.getFriends(arg0);
             return result;
         }
     }
-    async getStoreListingsByUser(arg0: Principal): Promise<Array<StoreListing>> {
+    async getGroupById(arg0: bigint): Promise<Group | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.getStoreListingsByUser(arg0);
-                return from_candid_vec_n21(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getGroupById(arg0);
+                return from_candid_opt_n65(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getStoreListingsByUser(arg0);
-            return from_candid_vec_n21(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getGroupById(arg0);
+            return from_candid_opt_n65(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUnreadMessageCount(): Promise<bigint> {
+    async getGroupMessages(arg0: bigint): Promise<Array<GroupMessage>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUnreadMessageCount();
+                const result = await this.actor.getGroupMessages(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUnreadMessageCount();
+            const result = await this.actor.getGroupMessages(arg0);
             return result;
         }
     }
-    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+    async getHomeFeed(arg0: bigint | null, arg1: bigint): Promise<PostsPage> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_opt_n26(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getHomeFeed(to_candid_opt_n8(this._uploadFile, this._downloadFile, arg0), arg1);
+                return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_opt_n26(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getHomeFeed(to_candid_opt_n8(this._uploadFile, this._downloadFile, arg0), arg1);
+            return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async getICECandidates(arg0: string, arg1: Principal): Promise<Array<string>> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
+                const result = await this.actor.getICECandidates(arg0, arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
+            const result = await this.actor.getICECandidates(arg0, arg1);
             return result;
         }
     }
-    async likeOrUnlikePost(arg0: bigint): Promise<void> {
+    async getLikesCount(arg0: bigint): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.likeOrUnlikePost(arg0);
+                const result = await this.actor.getLikesCount(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.likeOrUnlikePost(arg0);
+            const result = await this.actor.getLikesCount(arg0);
             return result;
         }
     }
-    async loginWithCredentials(arg0: string, arg1: string): Promise<boolean> {
+    async getMutedUsers(): Promise<Array<Principal>> {
         if (this.processError) {
             try {
-                const result = await this.actor.loginWithCredentials(arg0, arg1);
+                const result = await this.actor.getMutedUsers();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.loginWithCredentials(arg0, arg1);
+            const result = await this.actor.getMutedUsers();
             return result;
         }
     }
-    async markAccountVerified(): Promise<void> {
+    async getMyBalance(): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.markAccountVerified();
+                const result = await this.actor.getMyBalance();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.markAccountVerified();
+            const result = await this.actor.getMyBalance();
             return result;
         }
     }
-    async markConversationRead(arg0: Principal): Promise<void> {
+    async getMyGroups(): Promise<Array<Group>> {
         if (this.processError) {
             try {
-                const result = await this.actor.markConversationRead(arg0);
+                const result = await this.actor.getMyGroups();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.markConversationRead(arg0);
+            const result = await this.actor.getMyGroups();
             return result;
         }
     }
-    async markNotificationAsRead(arg0: bigint): Promise<void> {
+    async getMyReferralCode(): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.markNotificationAsRead(arg0);
+                const result = await this.actor.getMyReferralCode();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.markNotificationAsRead(arg0);
+            const result = await this.actor.getMyReferralCode();
             return result;
         }
     }
-    async redeemReferralCode(arg0: string): Promise<void> {
+    async getMyScheduledPosts(): Promise<Array<ScheduledPost>> {
         if (this.processError) {
             try {
-                const result = await this.actor.redeemReferralCode(arg0);
-                return result;
+                const result = await this.actor.getMyScheduledPosts();
+                return from_candid_vec_n66(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.redeemReferralCode(arg0);
-            return result;
+            const result = await this.actor.getMyScheduledPosts();
+            return from_candid_vec_n66(this._uploadFile, this._downloadFile, result);
         }
     }
-    async registerWithCredentials(arg0: string, arg1: string): Promise<void> {
+    async getMyUsername(): Promise<string | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.registerWithCredentials(arg0, arg1);
-                return result;
+                const result = await this.actor.getMyUsername();
+                return from_candid_opt_n11(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.registerWithCredentials(arg0, arg1);
-            return result;
+            const result = await this.actor.getMyUsername();
+            return from_candid_opt_n11(this._uploadFile, this._downloadFile, result);
         }
     }
-    async removeEmojiReaction(arg0: bigint, arg1: string): Promise<void> {
+    async getNotifications(): Promise<Array<Notification>> {
         if (this.processError) {
             try {
-                const result = await this.actor.removeEmojiReaction(arg0, arg1);
-                return result;
+                const result = await this.actor.getNotifications();
+                return from_candid_vec_n69(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.removeEmojiReaction(arg0, arg1);
-            return result;
+            const result = await this.actor.getNotifications();
+            return from_candid_vec_n69(this._uploadFile, this._downloadFile, result);
         }
     }
-    async removeGroupMember(arg0: bigint, arg1: Principal): Promise<void> {
+    async getPendingFriendRequests(): Promise<Array<{
+        from: Principal;
+        timestamp: Time;
+    }>> {
         if (this.processError) {
             try {
-                const result = await this.actor.removeGroupMember(arg0, arg1);
+                const result = await this.actor.getPendingFriendRequests();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.removeGroupMember(arg0, arg1);
+            const result = await this.actor.getPendingFriendRequests();
             return result;
         }
     }
-    async respondToFriendRequest(arg0: Principal, arg1: boolean): Promise<void> {
+    async getPollResults(arg0: bigint): Promise<PollResults> {
         if (this.processError) {
             try {
-                const result = await this.actor.respondToFriendRequest(arg0, arg1);
-                return result;
+                const result = await this.actor.getPollResults(arg0);
+                return from_candid_PollResults_n74(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.respondToFriendRequest(arg0, arg1);
-            return result;
+            const result = await this.actor.getPollResults(arg0);
+            return from_candid_PollResults_n74(this._uploadFile, this._downloadFile, result);
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async getPost(arg0: bigint): Promise<Post | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(await to_candid_UserProfile_n32(this._uploadFile, this._downloadFile, arg0));
-                return result;
+                const result = await this.actor.getPost(arg0);
+                return from_candid_opt_n77(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(await to_candid_UserProfile_n32(this._uploadFile, this._downloadFile, arg0));
-            return result;
+            const result = await this.actor.getPost(arg0);
+            return from_candid_opt_n77(this._uploadFile, this._downloadFile, result);
         }
     }
-    async sendFriendRequest(arg0: Principal): Promise<void> {
+    async getPostReactors(arg0: bigint, arg1: string | null, arg2: Principal | null): Promise<ReactorsPage> {
         if (this.processError) {
             try {
-                const result = await this.actor.sendFriendRequest(arg0);
-                return result;
+                const result = await this.actor.getPostReactors(arg0, to_candid_opt_n78(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n79(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_ReactorsPage_n80(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.sendFriendRequest(arg0);
-            return result;
+            const result = await this.actor.getPostReactors(arg0, to_candid_opt_n78(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n79(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_ReactorsPage_n80(this._uploadFile, this._downloadFile, result);
         }
     }
-    async sendGroupMessage(arg0: bigint, arg1: string): Promise<bigint> {
+    async getPostRevisions(arg0: bigint): Promise<Array<PostRevision>> {
         if (this.processError) {
             try {
-                const result = await this.actor.sendGroupMessage(arg0, arg1);
-                return result;
+                const result = await this.actor.getPostRevisions(arg0);
+                return from_candid_vec_n86(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.sendGroupMessage(arg0, arg1);
-            return result;
+            const result = await this.actor.getPostRevisions(arg0);
+            return from_candid_vec_n86(this._uploadFile, this._downloadFile, result);
         }
     }
-    async sendMessage(arg0: Principal, arg1: string): Promise<bigint> {
+    async getPostsByHashtag(arg0: string, arg1: bigint | null): Promise<PostsPage> {
         if (this.processError) {
             try {
-                const result = await this.actor.sendMessage(arg0, arg1);
-                return result;
+                const result = await this.actor.getPostsByHashtag(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.sendMessage(arg0, arg1);
-            return result;
+            const result = await this.actor.getPostsByHashtag(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
         }
     }
-    async storeCallAnswer(arg0: string, arg1: string): Promise<void> {
+    async getPostsByUser(arg0: Principal): Promise<Array<Post>> {
         if (this.processError) {
             try {
-                const result = await this.actor.storeCallAnswer(arg0, arg1);
-                return result;
+                const result = await this.actor.getPostsByUser(arg0);
+                return from_candid_vec_n22(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.storeCallAnswer(arg0, arg1);
-            return result;
+            const result = await this.actor.getPostsByUser(arg0);
+            return from_candid_vec_n22(this._uploadFile, this._downloadFile, result);
         }
     }
-    async storeCallOffer(arg0: string, arg1: string, arg2: Principal): Promise<void> {
+    async getPostsPage(arg0: bigint | null, arg1: bigint): Promise<PostsPage> {
         if (this.processError) {
             try {
-                const result = await this.actor.storeCallOffer(arg0, arg1, arg2);
-                return result;
+                const result = await this.actor.getPostsPage(to_candid_opt_n8(this._uploadFile, this._downloadFile, arg0), arg1);
+                return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.storeCallOffer(arg0, arg1, arg2);
-            return result;
+            const result = await this.actor.getPostsPage(to_candid_opt_n8(this._uploadFile, this._downloadFile, arg0), arg1);
+            return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
         }
     }
-    async unfollowUser(arg0: Principal): Promise<void> {
+    async getRecoveryCodesRemaining(): Promise<bigint> {
         if (this.processError) {
             try {
-                const result = await this.actor.unfollowUser(arg0);
+                const result = await this.actor.getRecoveryCodesRemaining();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.unfollowUser(arg0);
+            const result = await this.actor.getRecoveryCodesRemaining();
             return result;
         }
     }
-}
-async function from_candid_ExternalBlob_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
-    return await _downloadFile(value);
-}
-async function from_candid_Post_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Post): Promise<Post> {
-    return await from_candid_record_n15(_uploadFile, _downloadFile, value);
-}
-async function from_candid_Reel_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Reel): Promise<Reel> {
-    return await from_candid_record_n20(_uploadFile, _downloadFile, value);
-}
-async function from_candid_StoreListing_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StoreListing): Promise<StoreListing> {
-    return await from_candid_record_n23(_uploadFile, _downloadFile, value);
-}
-async function from_candid_UserProfile_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): Promise<UserProfile> {
-    return await from_candid_record_n28(_uploadFile, _downloadFile, value);
-}
-function from_candid_UserRole_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
-    return from_candid_variant_n30(_uploadFile, _downloadFile, value);
-}
-function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
-    return from_candid_record_n5(_uploadFile, _downloadFile, value);
-}
-function from_candid_opt_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
-    return value.length === 0 ? null : value[0];
-}
-async function from_candid_opt_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ExternalBlob]): Promise<ExternalBlob | null> {
-    return value.length === 0 ? null : await from_candid_ExternalBlob_n17(_uploadFile, _downloadFile, value[0]);
-}
-function from_candid_opt_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_WebRTCAnswer]): WebRTCAnswer | null {
-    return value.length === 0 ? null : value[0];
-}
-function from_candid_opt_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_WebRTCOffer]): WebRTCOffer | null {
+    async getReelsByUser(arg0: Principal): Promise<Array<Reel>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getReelsByUser(arg0);
+                return from_candid_vec_n35(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getReelsByUser(arg0);
+            return from_candid_vec_n35(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getReferralStats(): Promise<ReferralStats> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getReferralStats();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getReferralStats();
+            return result;
+        }
+    }
+    async getRelationship(arg0: Principal): Promise<Relationship> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRelationship(arg0);
+                return from_candid_Relationship_n89(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRelationship(arg0);
+            return from_candid_Relationship_n89(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRepostCount(arg0: bigint): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRepostCount(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRepostCount(arg0);
+            return result;
+        }
+    }
+    async getSentFriendRequests(): Promise<Array<{
+        to: Principal;
+        timestamp: Time;
+    }>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getSentFriendRequests();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getSentFriendRequests();
+            return result;
+        }
+    }
+    async getStoreListingsByUser(arg0: Principal): Promise<Array<StoreListing>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getStoreListingsByUser(arg0);
+                return from_candid_vec_n38(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getStoreListingsByUser(arg0);
+            return from_candid_vec_n38(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getUnreadMessageCount(): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUnreadMessageCount();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUnreadMessageCount();
+            return result;
+        }
+    }
+    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_opt_n49(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_opt_n49(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async isCallerAdmin(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isCallerAdmin();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isCallerAdmin();
+            return result;
+        }
+    }
+    async likeOrUnlikeComment(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.likeOrUnlikeComment(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.likeOrUnlikeComment(arg0);
+            return result;
+        }
+    }
+    async likeOrUnlikePost(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.likeOrUnlikePost(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.likeOrUnlikePost(arg0);
+            return result;
+        }
+    }
+    async loginWithCredentials(arg0: string, arg1: string): Promise<LoginResult> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.loginWithCredentials(arg0, arg1);
+                return from_candid_LoginResult_n91(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.loginWithCredentials(arg0, arg1);
+            return from_candid_LoginResult_n91(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async markAccountVerified(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.markAccountVerified();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.markAccountVerified();
+            return result;
+        }
+    }
+    async markConversationRead(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.markConversationRead(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.markConversationRead(arg0);
+            return result;
+        }
+    }
+    async markNotificationAsRead(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.markNotificationAsRead(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.markNotificationAsRead(arg0);
+            return result;
+        }
+    }
+    async muteUser(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.muteUser(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.muteUser(arg0);
+            return result;
+        }
+    }
+    async pinPost(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.pinPost(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.pinPost(arg0);
+            return result;
+        }
+    }
+    async quotePost(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.quotePost(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.quotePost(arg0, arg1);
+            return result;
+        }
+    }
+    async redeemReferralCode(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.redeemReferralCode(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.redeemReferralCode(arg0);
+            return result;
+        }
+    }
+    async regenerateRecoveryCodes(): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.regenerateRecoveryCodes();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.regenerateRecoveryCodes();
+            return result;
+        }
+    }
+    async registerWithCredentials(arg0: string, arg1: string): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.registerWithCredentials(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.registerWithCredentials(arg0, arg1);
+            return result;
+        }
+    }
+    async removeEmojiReaction(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeEmojiReaction(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeEmojiReaction(arg0, arg1);
+            return result;
+        }
+    }
+    async removeFriend(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeFriend(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeFriend(arg0);
+            return result;
+        }
+    }
+    async removeGroupMember(arg0: bigint, arg1: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeGroupMember(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeGroupMember(arg0, arg1);
+            return result;
+        }
+    }
+    async renameBookmarkCollection(arg0: bigint, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.renameBookmarkCollection(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.renameBookmarkCollection(arg0, arg1);
+            return result;
+        }
+    }
+    async repost(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.repost(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.repost(arg0);
+            return result;
+        }
+    }
+    async reschedulePost(arg0: bigint, arg1: Time): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reschedulePost(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reschedulePost(arg0, arg1);
+            return result;
+        }
+    }
+    async resetPasswordWithRecoveryCode(arg0: string, arg1: string, arg2: string): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.resetPasswordWithRecoveryCode(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.resetPasswordWithRecoveryCode(arg0, arg1, arg2);
+            return result;
+        }
+    }
+    async respondToFollowRequest(arg0: Principal, arg1: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.respondToFollowRequest(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.respondToFollowRequest(arg0, arg1);
+            return result;
+        }
+    }
+    async respondToFriendRequest(arg0: Principal, arg1: boolean): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.respondToFriendRequest(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.respondToFriendRequest(arg0, arg1);
+            return result;
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(await to_candid_UserProfile_n93(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(await to_candid_UserProfile_n93(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async schedulePost(arg0: string, arg1: Array<PostMedia>, arg2: PostVisibility, arg3: Poll | null, arg4: Time): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.schedulePost(arg0, await to_candid_vec_n12(this._uploadFile, this._downloadFile, arg1), to_candid_PostVisibility_n18(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n20(this._uploadFile, this._downloadFile, arg3), arg4);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.schedulePost(arg0, await to_candid_vec_n12(this._uploadFile, this._downloadFile, arg1), to_candid_PostVisibility_n18(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n20(this._uploadFile, this._downloadFile, arg3), arg4);
+            return result;
+        }
+    }
+    async searchPosts(arg0: string, arg1: bigint | null): Promise<PostsPage> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.searchPosts(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.searchPosts(arg0, to_candid_opt_n8(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_PostsPage_n45(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async searchUsernames(arg0: string, arg1: bigint): Promise<Array<UserSearchResult>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.searchUsernames(arg0, arg1);
+                return from_candid_vec_n83(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.searchUsernames(arg0, arg1);
+            return from_candid_vec_n83(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async searchUsers(arg0: string, arg1: bigint): Promise<Array<UserSearchResult>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.searchUsers(arg0, arg1);
+                return from_candid_vec_n83(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.searchUsers(arg0, arg1);
+            return from_candid_vec_n83(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async sendFriendRequest(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.sendFriendRequest(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.sendFriendRequest(arg0);
+            return result;
+        }
+    }
+    async sendGroupMessage(arg0: bigint, arg1: string): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.sendGroupMessage(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.sendGroupMessage(arg0, arg1);
+            return result;
+        }
+    }
+    async sendListingInquiry(arg0: bigint, arg1: string): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.sendListingInquiry(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.sendListingInquiry(arg0, arg1);
+            return result;
+        }
+    }
+    async sendMessage(arg0: Principal, arg1: string): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.sendMessage(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.sendMessage(arg0, arg1);
+            return result;
+        }
+    }
+    async storeCallAnswer(arg0: string, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.storeCallAnswer(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.storeCallAnswer(arg0, arg1);
+            return result;
+        }
+    }
+    async storeCallOffer(arg0: string, arg1: string, arg2: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.storeCallOffer(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.storeCallOffer(arg0, arg1, arg2);
+            return result;
+        }
+    }
+    async unblockUser(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unblockUser(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unblockUser(arg0);
+            return result;
+        }
+    }
+    async unbookmarkPost(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unbookmarkPost(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unbookmarkPost(arg0);
+            return result;
+        }
+    }
+    async undoRepost(arg0: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.undoRepost(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.undoRepost(arg0);
+            return result;
+        }
+    }
+    async unfollowUser(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unfollowUser(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unfollowUser(arg0);
+            return result;
+        }
+    }
+    async unmuteUser(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unmuteUser(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unmuteUser(arg0);
+            return result;
+        }
+    }
+    async unpinPost(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.unpinPost();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.unpinPost();
+            return result;
+        }
+    }
+    async votePoll(arg0: bigint, arg1: Array<bigint>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.votePoll(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.votePoll(arg0, arg1);
+            return result;
+        }
+    }
+}
+function from_candid_Bookmark_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Bookmark): Bookmark {
+    return from_candid_record_n44(_uploadFile, _downloadFile, value);
+}
+function from_candid_CommentView_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CommentView): CommentView {
+    return from_candid_record_n58(_uploadFile, _downloadFile, value);
+}
+function from_candid_Comment_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Comment): Comment {
+    return from_candid_record_n60(_uploadFile, _downloadFile, value);
+}
+function from_candid_CommentsPage_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CommentsPage): CommentsPage {
+    return from_candid_record_n55(_uploadFile, _downloadFile, value);
+}
+async function from_candid_ExternalBlob_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
+    return await _downloadFile(value);
+}
+async function from_candid_FriendSuggestion_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _FriendSuggestion): Promise<FriendSuggestion> {
+    return await from_candid_record_n64(_uploadFile, _downloadFile, value);
+}
+function from_candid_LoginResult_n91(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _LoginResult): LoginResult {
+    return from_candid_record_n92(_uploadFile, _downloadFile, value);
+}
+function from_candid_MediaKind_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _MediaKind): MediaKind {
+    return from_candid_variant_n30(_uploadFile, _downloadFile, value);
+}
+function from_candid_NotificationKind_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _NotificationKind): NotificationKind {
+    return from_candid_variant_n73(_uploadFile, _downloadFile, value);
+}
+function from_candid_Notification_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Notification): Notification {
+    return from_candid_record_n71(_uploadFile, _downloadFile, value);
+}
+function from_candid_PollResults_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PollResults): PollResults {
+    return from_candid_record_n75(_uploadFile, _downloadFile, value);
+}
+async function from_candid_PostMedia_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PostMedia): Promise<PostMedia> {
+    return await from_candid_record_n27(_uploadFile, _downloadFile, value);
+}
+async function from_candid_PostRevision_n87(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PostRevision): Promise<PostRevision> {
+    return await from_candid_record_n88(_uploadFile, _downloadFile, value);
+}
+function from_candid_PostVisibility_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PostVisibility): PostVisibility {
+    return from_candid_variant_n33(_uploadFile, _downloadFile, value);
+}
+async function from_candid_Post_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Post): Promise<Post> {
+    return await from_candid_record_n24(_uploadFile, _downloadFile, value);
+}
+async function from_candid_PostsPage_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PostsPage): Promise<PostsPage> {
+    return await from_candid_record_n46(_uploadFile, _downloadFile, value);
+}
+async function from_candid_ReactorsPage_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ReactorsPage): Promise<ReactorsPage> {
+    return await from_candid_record_n81(_uploadFile, _downloadFile, value);
+}
+async function from_candid_Reel_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Reel): Promise<Reel> {
+    return await from_candid_record_n37(_uploadFile, _downloadFile, value);
+}
+function from_candid_Relationship_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Relationship): Relationship {
+    return from_candid_record_n90(_uploadFile, _downloadFile, value);
+}
+async function from_candid_ScheduledPost_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ScheduledPost): Promise<ScheduledPost> {
+    return await from_candid_record_n68(_uploadFile, _downloadFile, value);
+}
+async function from_candid_StoreListing_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StoreListing): Promise<StoreListing> {
+    return await from_candid_record_n40(_uploadFile, _downloadFile, value);
+}
+async function from_candid_UserProfile_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): Promise<UserProfile> {
+    return await from_candid_record_n51(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserRole_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+    return from_candid_variant_n53(_uploadFile, _downloadFile, value);
+}
+async function from_candid_UserSearchResult_n84(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserSearchResult): Promise<UserSearchResult> {
+    return await from_candid_record_n85(_uploadFile, _downloadFile, value);
+}
+function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
+    return from_candid_record_n5(_uploadFile, _downloadFile, value);
+}
+function from_candid_opt_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Poll]): Poll | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Time]): Time | null {
     return value.length === 0 ? null : value[0];
 }
-async function from_candid_opt_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): Promise<UserProfile | null> {
-    return value.length === 0 ? null : await from_candid_UserProfile_n27(_uploadFile, _downloadFile, value[0]);
+async function from_candid_opt_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ExternalBlob]): Promise<ExternalBlob | null> {
+    return value.length === 0 ? null : await from_candid_ExternalBlob_n28(_uploadFile, _downloadFile, value[0]);
 }
-function from_candid_opt_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Group]): Group | null {
+function from_candid_opt_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Bookmark]): Bookmark | null {
+    return value.length === 0 ? null : from_candid_Bookmark_n43(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_WebRTCAnswer]): WebRTCAnswer | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_WebRTCOffer]): WebRTCOffer | null {
     return value.length === 0 ? null : value[0];
 }
+async function from_candid_opt_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): Promise<UserProfile | null> {
+    return value.length === 0 ? null : await from_candid_UserProfile_n50(_uploadFile, _downloadFile, value[0]);
+}
 function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
     return value.length === 0 ? null : value[0];
 }
+function from_candid_opt_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Group]): Group | null {
+    return value.length === 0 ? null : value[0];
+}
 function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
-async function from_candid_record_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_opt_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [Array<bigint>]): Array<bigint> | null {
+    return value.length === 0 ? null : value[0];
+}
+async function from_candid_opt_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Post]): Promise<Post | null> {
+    return value.length === 0 ? null : await from_candid_Post_n23(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n82(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [Principal]): Principal | null {
+    return value.length === 0 ? null : value[0];
+}
+async function from_candid_record_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: bigint;
+    media: Array<_PostMedia>;
     content: string;
+    poll: [] | [_Poll];
+    quoteOf: [] | [bigint];
     author: Principal;
     timestamp: _Time;
-    image: [] | [_ExternalBlob];
+    mentions: Array<_Mention>;
+    visibility: _PostVisibility;
+    editedAt: [] | [_Time];
+    repostOf: [] | [bigint];
 }): Promise<{
     id: bigint;
+    media: Array<PostMedia>;
     content: string;
+    poll?: Poll;
+    quoteOf?: bigint;
     author: Principal;
     timestamp: Time;
-    image?: ExternalBlob;
+    mentions: Array<Mention>;
+    visibility: PostVisibility;
+    editedAt?: Time;
+    repostOf?: bigint;
 }> {
     return {
         id: value.id,
+        media: await from_candid_vec_n25(_uploadFile, _downloadFile, value.media),
         content: value.content,
+        poll: record_opt_to_undefined(from_candid_opt_n31(_uploadFile, _downloadFile, value.poll)),
+        quoteOf: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.quoteOf)),
         author: value.author,
         timestamp: value.timestamp,
-        image: record_opt_to_undefined(await from_candid_opt_n16(_uploadFile, _downloadFile, value.image))
+        mentions: value.mentions,
+        visibility: from_candid_PostVisibility_n32(_uploadFile, _downloadFile, value.visibility),
+        editedAt: record_opt_to_undefined(from_candid_opt_n34(_uploadFile, _downloadFile, value.editedAt)),
+        repostOf: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.repostOf))
+    };
+}
+async function from_candid_record_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    blob: _ExternalBlob;
+    kind: _MediaKind;
+}): Promise<{
+    blob: ExternalBlob;
+    kind: MediaKind;
+}> {
+    return {
+        blob: await from_candid_ExternalBlob_n28(_uploadFile, _downloadFile, value.blob),
+        kind: from_candid_MediaKind_n29(_uploadFile, _downloadFile, value.kind)
     };
 }
-async function from_candid_record_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+async function from_candid_record_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: bigint;
     title: string;
     video: _ExternalBlob;
@@ -1408,12 +2487,12 @@ async function from_candid_record_n20(_uploadFile: (file: ExternalBlob) => Promi
     return {
         id: value.id,
         title: value.title,
-        video: await from_candid_ExternalBlob_n17(_uploadFile, _downloadFile, value.video),
+        video: await from_candid_ExternalBlob_n28(_uploadFile, _downloadFile, value.video),
         creatorId: value.creatorId,
         timestamp: value.timestamp
     };
 }
-async function from_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+async function from_candid_record_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: bigint;
     title: string;
     description: string;
@@ -1436,47 +2515,353 @@ async function from_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promi
         description: value.description,
         seller: value.seller,
         timestamp: value.timestamp,
-        image: record_opt_to_undefined(await from_candid_opt_n16(_uploadFile, _downloadFile, value.image)),
+        image: record_opt_to_undefined(await from_candid_opt_n41(_uploadFile, _downloadFile, value.image)),
         price: value.price
     };
 }
-async function from_candid_record_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    collectionId: [] | [bigint];
+    savedAt: _Time;
+    postId: bigint;
+}): {
+    id: bigint;
+    collectionId?: bigint;
+    savedAt: Time;
+    postId: bigint;
+} {
+    return {
+        id: value.id,
+        collectionId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.collectionId)),
+        savedAt: value.savedAt,
+        postId: value.postId
+    };
+}
+async function from_candid_record_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    posts: Array<_Post>;
+    nextCursor: [] | [bigint];
+}): Promise<{
+    posts: Array<Post>;
+    nextCursor?: bigint;
+}> {
+    return {
+        posts: await from_candid_vec_n22(_uploadFile, _downloadFile, value.posts),
+        nextCursor: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.nextCursor))
+    };
+}
+function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    success: [] | [boolean];
+    topped_up_amount: [] | [bigint];
+}): {
+    success?: boolean;
+    topped_up_amount?: bigint;
+} {
+    return {
+        success: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.success)),
+        topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
+    };
+}
+async function from_candid_record_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     bio: string;
     displayName: string;
     coverPhoto: [] | [_ExternalBlob];
     isProfessional: boolean;
+    isPrivate: boolean;
     professionalTitle: [] | [string];
+    pinnedPostId: [] | [bigint];
     avatar: [] | [_ExternalBlob];
 }): Promise<{
     bio: string;
     displayName: string;
     coverPhoto?: ExternalBlob;
     isProfessional: boolean;
+    isPrivate: boolean;
     professionalTitle?: string;
+    pinnedPostId?: bigint;
     avatar?: ExternalBlob;
 }> {
     return {
         bio: value.bio,
         displayName: value.displayName,
-        coverPhoto: record_opt_to_undefined(await from_candid_opt_n16(_uploadFile, _downloadFile, value.coverPhoto)),
+        coverPhoto: record_opt_to_undefined(await from_candid_opt_n41(_uploadFile, _downloadFile, value.coverPhoto)),
         isProfessional: value.isProfessional,
-        professionalTitle: record_opt_to_undefined(from_candid_opt_n10(_uploadFile, _downloadFile, value.professionalTitle)),
-        avatar: record_opt_to_undefined(await from_candid_opt_n16(_uploadFile, _downloadFile, value.avatar))
+        isPrivate: value.isPrivate,
+        professionalTitle: record_opt_to_undefined(from_candid_opt_n11(_uploadFile, _downloadFile, value.professionalTitle)),
+        pinnedPostId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.pinnedPostId)),
+        avatar: record_opt_to_undefined(await from_candid_opt_n41(_uploadFile, _downloadFile, value.avatar))
     };
 }
-function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    success: [] | [boolean];
-    topped_up_amount: [] | [bigint];
+function from_candid_record_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    comments: Array<_CommentView>;
+    nextCursor: [] | [bigint];
 }): {
-    success?: boolean;
-    topped_up_amount?: bigint;
+    comments: Array<CommentView>;
+    nextCursor?: bigint;
 } {
     return {
-        success: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.success)),
-        topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
+        comments: from_candid_vec_n56(_uploadFile, _downloadFile, value.comments),
+        nextCursor: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.nextCursor))
+    };
+}
+function from_candid_record_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    likeCount: bigint;
+    comment: _Comment;
+    replyCount: bigint;
+    likedByCaller: boolean;
+}): {
+    likeCount: bigint;
+    comment: Comment;
+    replyCount: bigint;
+    likedByCaller: boolean;
+} {
+    return {
+        likeCount: value.likeCount,
+        comment: from_candid_Comment_n59(_uploadFile, _downloadFile, value.comment),
+        replyCount: value.replyCount,
+        likedByCaller: value.likedByCaller
+    };
+}
+function from_candid_record_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    content: string;
+    parentCommentId: [] | [bigint];
+    author: Principal;
+    timestamp: _Time;
+    mentions: Array<_Mention>;
+    postId: bigint;
+}): {
+    id: bigint;
+    content: string;
+    parentCommentId?: bigint;
+    author: Principal;
+    timestamp: Time;
+    mentions: Array<Mention>;
+    postId: bigint;
+} {
+    return {
+        id: value.id,
+        content: value.content,
+        parentCommentId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.parentCommentId)),
+        author: value.author,
+        timestamp: value.timestamp,
+        mentions: value.mentions,
+        postId: value.postId
+    };
+}
+async function from_candid_record_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    username: [] | [string];
+    sharedFollows: bigint;
+    user: Principal;
+    isFollowing: boolean;
+    mutualFriends: bigint;
+    profile: _UserProfile;
+}): Promise<{
+    username?: string;
+    sharedFollows: bigint;
+    user: Principal;
+    isFollowing: boolean;
+    mutualFriends: bigint;
+    profile: UserProfile;
+}> {
+    return {
+        username: record_opt_to_undefined(from_candid_opt_n11(_uploadFile, _downloadFile, value.username)),
+        sharedFollows: value.sharedFollows,
+        user: value.user,
+        isFollowing: value.isFollowing,
+        mutualFriends: value.mutualFriends,
+        profile: await from_candid_UserProfile_n50(_uploadFile, _downloadFile, value.profile)
+    };
+}
+async function from_candid_record_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    media: Array<_PostMedia>;
+    content: string;
+    publishAt: _Time;
+    poll: [] | [_Poll];
+    author: Principal;
+    visibility: _PostVisibility;
+}): Promise<{
+    id: bigint;
+    media: Array<PostMedia>;
+    content: string;
+    publishAt: Time;
+    poll?: Poll;
+    author: Principal;
+    visibility: PostVisibility;
+}> {
+    return {
+        id: value.id,
+        media: await from_candid_vec_n25(_uploadFile, _downloadFile, value.media),
+        content: value.content,
+        publishAt: value.publishAt,
+        poll: record_opt_to_undefined(from_candid_opt_n31(_uploadFile, _downloadFile, value.poll)),
+        author: value.author,
+        visibility: from_candid_PostVisibility_n32(_uploadFile, _downloadFile, value.visibility)
+    };
+}
+function from_candid_record_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    listingId: [] | [bigint];
+    kind: _NotificationKind;
+    read: boolean;
+    recipient: Principal;
+    actorId: Principal;
+    groupId: [] | [bigint];
+    timestamp: _Time;
+    postId: [] | [bigint];
+}): {
+    id: bigint;
+    listingId?: bigint;
+    kind: NotificationKind;
+    read: boolean;
+    recipient: Principal;
+    actorId: Principal;
+    groupId?: bigint;
+    timestamp: Time;
+    postId?: bigint;
+} {
+    return {
+        id: value.id,
+        listingId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.listingId)),
+        kind: from_candid_NotificationKind_n72(_uploadFile, _downloadFile, value.kind),
+        read: value.read,
+        recipient: value.recipient,
+        actorId: value.actorId,
+        groupId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.groupId)),
+        timestamp: value.timestamp,
+        postId: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.postId))
+    };
+}
+function from_candid_record_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    closed: boolean;
+    callerVote: [] | [Array<bigint>];
+    counts: Array<bigint>;
+    voterCount: bigint;
+}): {
+    closed: boolean;
+    callerVote?: Array<bigint>;
+    counts: Array<bigint>;
+    voterCount: bigint;
+} {
+    return {
+        closed: value.closed,
+        callerVote: record_opt_to_undefined(from_candid_opt_n76(_uploadFile, _downloadFile, value.callerVote)),
+        counts: value.counts,
+        voterCount: value.voterCount
+    };
+}
+async function from_candid_record_n81(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    nextCursor: [] | [Principal];
+    reactors: Array<_UserSearchResult>;
+}): Promise<{
+    nextCursor?: Principal;
+    reactors: Array<UserSearchResult>;
+}> {
+    return {
+        nextCursor: record_opt_to_undefined(from_candid_opt_n82(_uploadFile, _downloadFile, value.nextCursor)),
+        reactors: await from_candid_vec_n83(_uploadFile, _downloadFile, value.reactors)
+    };
+}
+async function from_candid_record_n85(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    username: [] | [string];
+    user: Principal;
+    isFollowing: boolean;
+    friendStatus: [] | [string];
+    profile: _UserProfile;
+}): Promise<{
+    username?: string;
+    user: Principal;
+    isFollowing: boolean;
+    friendStatus?: string;
+    profile: UserProfile;
+}> {
+    return {
+        username: record_opt_to_undefined(from_candid_opt_n11(_uploadFile, _downloadFile, value.username)),
+        user: value.user,
+        isFollowing: value.isFollowing,
+        friendStatus: record_opt_to_undefined(from_candid_opt_n11(_uploadFile, _downloadFile, value.friendStatus)),
+        profile: await from_candid_UserProfile_n50(_uploadFile, _downloadFile, value.profile)
+    };
+}
+async function from_candid_record_n88(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    media: Array<_PostMedia>;
+    content: string;
+    timestamp: _Time;
+}): Promise<{
+    media: Array<PostMedia>;
+    content: string;
+    timestamp: Time;
+}> {
+    return {
+        media: await from_candid_vec_n25(_uploadFile, _downloadFile, value.media),
+        content: value.content,
+        timestamp: value.timestamp
+    };
+}
+function from_candid_record_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    friendRequestSent: boolean;
+    isBlocked: boolean;
+    blocksYou: boolean;
+    isFollowing: boolean;
+    isMuted: boolean;
+    friendStatus: [] | [string];
+    mutualFriends: Array<Principal>;
+    followRequested: boolean;
+    followsYou: boolean;
+}): {
+    friendRequestSent: boolean;
+    isBlocked: boolean;
+    blocksYou: boolean;
+    isFollowing: boolean;
+    isMuted: boolean;
+    friendStatus?: string;
+    mutualFriends: Array<Principal>;
+    followRequested: boolean;
+    followsYou: boolean;
+} {
+    return {
+        friendRequestSent: value.friendRequestSent,
+        isBlocked: value.isBlocked,
+        blocksYou: value.blocksYou,
+        isFollowing: value.isFollowing,
+        isMuted: value.isMuted,
+        friendStatus: record_opt_to_undefined(from_candid_opt_n11(_uploadFile, _downloadFile, value.friendStatus)),
+        mutualFriends: value.mutualFriends,
+        followRequested: value.followRequested,
+        followsYou: value.followsYou
+    };
+}
+function from_candid_record_n92(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    success: boolean;
+    lockedUntil: [] | [_Time];
+}): {
+    success: boolean;
+    lockedUntil?: Time;
+} {
+    return {
+        success: value.success,
+        lockedUntil: record_opt_to_undefined(from_candid_opt_n34(_uploadFile, _downloadFile, value.lockedUntil))
     };
 }
 function from_candid_variant_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    video: null;
+} | {
+    image: null;
+}): MediaKind {
+    return "video" in value ? MediaKind.video : "image" in value ? MediaKind.image : value;
+}
+function from_candid_variant_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    everyone: null;
+} | {
+    followers: null;
+} | {
+    friends: null;
+} | {
+    onlyMe: null;
+}): PostVisibility {
+    return "everyone" in value ? PostVisibility.everyone : "followers" in value ? PostVisibility.followers : "friends" in value ? PostVisibility.friends : "onlyMe" in value ? PostVisibility.onlyMe : value;
+}
+function from_candid_variant_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     admin: null;
 } | {
     user: null;
@@ -1485,23 +2870,93 @@ function from_candid_variant_n30(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserRole {
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
-async function from_candid_vec_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Post>): Promise<Array<Post>> {
-    return await Promise.all(value.map(async (x)=>await from_candid_Post_n14(_uploadFile, _downloadFile, x)));
+function from_candid_variant_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    repost: null;
+} | {
+    friendAccepted: null;
+} | {
+    groupInvite: null;
+} | {
+    referralReward: null;
+} | {
+    like: null;
+} | {
+    quote: null;
+} | {
+    listingInquiry: null;
+} | {
+    comment: null;
+} | {
+    general: null;
+} | {
+    mention: null;
+} | {
+    commentLike: null;
+} | {
+    friendRequest: null;
+} | {
+    reply: null;
+} | {
+    followRequest: null;
+} | {
+    reaction: null;
+} | {
+    follow: null;
+} | {
+    followAccepted: null;
+}): NotificationKind {
+    return "repost" in value ? NotificationKind.repost : "friendAccepted" in value ? NotificationKind.friendAccepted : "groupInvite" in value ? NotificationKind.groupInvite : "referralReward" in value ? NotificationKind.referralReward : "like" in value ? NotificationKind.like : "quote" in value ? NotificationKind.quote : "listingInquiry" in value ? NotificationKind.listingInquiry : "comment" in value ? NotificationKind.comment : "general" in value ? NotificationKind.general : "mention" in value ? NotificationKind.mention : "commentLike" in value ? NotificationKind.commentLike : "friendRequest" in value ? NotificationKind.friendRequest : "reply" in value ? NotificationKind.reply : "followRequest" in value ? NotificationKind.followRequest : "reaction" in value ? NotificationKind.reaction : "follow" in value ? NotificationKind.follow : "followAccepted" in value ? NotificationKind.followAccepted : value;
+}
+async function from_candid_vec_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Post>): Promise<Array<Post>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Post_n23(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_vec_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PostMedia>): Promise<Array<PostMedia>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_PostMedia_n26(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_vec_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Reel>): Promise<Array<Reel>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Reel_n36(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_vec_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_StoreListing>): Promise<Array<StoreListing>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_StoreListing_n39(_uploadFile, _downloadFile, x)));
+}
+function from_candid_vec_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CommentView>): Array<CommentView> {
+    return value.map((x)=>from_candid_CommentView_n57(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Comment>): Array<Comment> {
+    return value.map((x)=>from_candid_Comment_n59(_uploadFile, _downloadFile, x));
+}
+async function from_candid_vec_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_FriendSuggestion>): Promise<Array<FriendSuggestion>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_FriendSuggestion_n63(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_vec_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ScheduledPost>): Promise<Array<ScheduledPost>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_ScheduledPost_n67(_uploadFile, _downloadFile, x)));
 }
-async function from_candid_vec_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Reel>): Promise<Array<Reel>> {
-    return await Promise.all(value.map(async (x)=>await from_candid_Reel_n19(_uploadFile, _downloadFile, x)));
+function from_candid_vec_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Notification>): Array<Notification> {
+    return value.map((x)=>from_candid_Notification_n70(_uploadFile, _downloadFile, x));
 }
-async function from_candid_vec_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_StoreListing>): Promise<Array<StoreListing>> {
-    return await Promise.all(value.map(async (x)=>await from_candid_StoreListing_n22(_uploadFile, _downloadFile, x)));
+async function from_candid_vec_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_UserSearchResult>): Promise<Array<UserSearchResult>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_UserSearchResult_n84(_uploadFile, _downloadFile, x)));
 }
-async function to_candid_ExternalBlob_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
+async function from_candid_vec_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PostRevision>): Promise<Array<PostRevision>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_PostRevision_n87(_uploadFile, _downloadFile, x)));
+}
+async function to_candid_ExternalBlob_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
     return await _uploadFile(value);
 }
-async function to_candid_UserProfile_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): Promise<_UserProfile> {
-    return await to_candid_record_n33(_uploadFile, _downloadFile, value);
+function to_candid_MediaKind_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: MediaKind): _MediaKind {
+    return to_candid_variant_n17(_uploadFile, _downloadFile, value);
+}
+async function to_candid_PostMedia_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PostMedia): Promise<_PostMedia> {
+    return await to_candid_record_n14(_uploadFile, _downloadFile, value);
+}
+function to_candid_PostVisibility_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PostVisibility): _PostVisibility {
+    return to_candid_variant_n19(_uploadFile, _downloadFile, value);
+}
+async function to_candid_UserProfile_n93(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): Promise<_UserProfile> {
+    return await to_candid_record_n94(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserRole_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
-    return to_candid_variant_n9(_uploadFile, _downloadFile, value);
+function to_candid_UserRole_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
+    return to_candid_variant_n10(_uploadFile, _downloadFile, value);
 }
 function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation): __CaffeineStorageRefillInformation {
     return to_candid_record_n3(_uploadFile, _downloadFile, value);
@@ -1509,8 +2964,32 @@ function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: Exte
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
-async function to_candid_opt_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob | null): Promise<[] | [_ExternalBlob]> {
-    return value === null ? candid_none() : candid_some(await to_candid_ExternalBlob_n12(_uploadFile, _downloadFile, value));
+function to_candid_opt_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Poll | null): [] | [_Poll] {
+    return value === null ? candid_none() : candid_some(value);
+}
+async function to_candid_opt_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob | null): Promise<[] | [_ExternalBlob]> {
+    return value === null ? candid_none() : candid_some(await to_candid_ExternalBlob_n15(_uploadFile, _downloadFile, value));
+}
+function to_candid_opt_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Principal | null): [] | [Principal] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
+    return value === null ? candid_none() : candid_some(value);
+}
+async function to_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    blob: ExternalBlob;
+    kind: MediaKind;
+}): Promise<{
+    blob: _ExternalBlob;
+    kind: _MediaKind;
+}> {
+    return {
+        blob: await to_candid_ExternalBlob_n15(_uploadFile, _downloadFile, value.blob),
+        kind: to_candid_MediaKind_n16(_uploadFile, _downloadFile, value.kind)
+    };
 }
 function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     proposed_top_up_amount?: bigint;
@@ -1521,31 +3000,37 @@ function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
         proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
     };
 }
-async function to_candid_record_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+async function to_candid_record_n94(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     bio: string;
     displayName: string;
     coverPhoto?: ExternalBlob;
     isProfessional: boolean;
+    isPrivate: boolean;
     professionalTitle?: string;
+    pinnedPostId?: bigint;
     avatar?: ExternalBlob;
 }): Promise<{
     bio: string;
     displayName: string;
     coverPhoto: [] | [_ExternalBlob];
     isProfessional: boolean;
+    isPrivate: boolean;
     professionalTitle: [] | [string];
+    pinnedPostId: [] | [bigint];
     avatar: [] | [_ExternalBlob];
 }> {
     return {
         bio: value.bio,
         displayName: value.displayName,
-        coverPhoto: value.coverPhoto ? candid_some(await to_candid_ExternalBlob_n12(_uploadFile, _downloadFile, value.coverPhoto)) : candid_none(),
+        coverPhoto: value.coverPhoto ? candid_some(await to_candid_ExternalBlob_n15(_uploadFile, _downloadFile, value.coverPhoto)) : candid_none(),
         isProfessional: value.isProfessional,
+        isPrivate: value.isPrivate,
         professionalTitle: value.professionalTitle ? candid_some(value.professionalTitle) : candid_none(),
-        avatar: value.avatar ? candid_some(await to_candid_ExternalBlob_n12(_uploadFile, _downloadFile, value.avatar)) : candid_none()
+        pinnedPostId: value.pinnedPostId ? candid_some(value.pinnedPostId) : candid_none(),
+        avatar: value.avatar ? candid_some(await to_candid_ExternalBlob_n15(_uploadFile, _downloadFile, value.avatar)) : candid_none()
     };
 }
-function to_candid_variant_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
+function to_candid_variant_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
     admin: null;
 } | {
     user: null;
@@ -1560,6 +3045,39 @@ function to_candid_variant_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8
         guest: null
     } : value;
 }
+function to_candid_variant_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: MediaKind): {
+    video: null;
+} | {
+    image: null;
+} {
+    return value == MediaKind.video ? {
+        video: null
+    } : value == MediaKind.image ? {
+        image: null
+    } : value;
+}
+function to_candid_variant_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PostVisibility): {
+    everyone: null;
+} | {
+    followers: null;
+} | {
+    friends: null;
+} | {
+    onlyMe: null;
+} {
+    return value == PostVisibility.everyone ? {
+        everyone: null
+    } : value == PostVisibility.followers ? {
+        followers: null
+    } : value == PostVisibility.friends ? {
+        friends: null
+    } : value == PostVisibility.onlyMe ? {
+        onlyMe: null
+    } : value;
+}
+async function to_candid_vec_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<PostMedia>): Promise<Array<_PostMedia>> {
+    return await Promise.all(value.map(async (x)=>await to_candid_PostMedia_n13(_uploadFile, _downloadFile, x)));
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
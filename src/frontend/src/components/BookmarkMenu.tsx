@@ -0,0 +1,127 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { Bookmark, BookmarkX, Check, FolderPlus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  useBookmarkPost,
+  useCreateBookmarkCollection,
+  useGetBookmark,
+  useGetBookmarkCollections,
+  useUnbookmarkPost,
+} from "../hooks/useQueries";
+import { CollectionNameDialog } from "./CollectionNameDialog";
+
+interface BookmarkMenuProps {
+  postId: bigint;
+}
+
+/** Saves a post to the caller's bookmarks, optionally into a collection. */
+export function BookmarkMenu({ postId }: BookmarkMenuProps) {
+  const [creating, setCreating] = useState(false);
+  const { data: bookmark = null } = useGetBookmark(postId);
+  const { data: collections = [] } = useGetBookmarkCollections();
+  const bookmarkPost = useBookmarkPost();
+  const unbookmarkPost = useUnbookmarkPost();
+  const createCollection = useCreateBookmarkCollection();
+  const saved = bookmark !== null;
+
+  const save = (collectionId: bigint | null, name?: string) => {
+    bookmarkPost.mutate(
+      { postId, collectionId },
+      {
+        onSuccess: () => toast.success(name ? `Saved to ${name}` : "Saved"),
+        onError: () => toast.error("Failed to save post"),
+      },
+    );
+  };
+
+  const remove = () => {
+    unbookmarkPost.mutate(postId, {
+      onSuccess: () => toast.success("Removed from saved"),
+      onError: () => toast.error("Failed to remove bookmark"),
+    });
+  };
+
+  const handleCreate = (name: string) => {
+    createCollection.mutate(name, {
+      onSuccess: (collectionId) => {
+        setCreating(false);
+        save(collectionId, name);
+      },
+      onError: () => toast.error("Failed to create collection"),
+    });
+  };
+
+  const checkmark = (selected: boolean) =>
+    selected && <Check className="w-4 h-4 ml-auto text-primary" />;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className={cn(
+              "transition-colors p-1.5 rounded-lg hover:bg-muted",
+              saved
+                ? "text-primary"
+                : "text-muted-foreground/50 hover:text-foreground",
+            )}
+            title={saved ? "Saved" : "Save post"}
+          >
+            <Bookmark className={cn("w-4 h-4", saved && "fill-current")} />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56 rounded-xl">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Save to
+          </DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => save(null)}>
+            <Bookmark className="w-4 h-4" />
+            Saved posts
+            {checkmark(saved && bookmark.collectionId === undefined)}
+          </DropdownMenuItem>
+          {collections.map(({ collection }) => (
+            <DropdownMenuItem
+              key={collection.id.toString()}
+              onClick={() => save(collection.id, collection.name)}
+            >
+              <span className="truncate">{collection.name}</span>
+              {checkmark(saved && bookmark.collectionId === collection.id)}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem onClick={() => setCreating(true)}>
+            <FolderPlus className="w-4 h-4" />
+            New collection…
+          </DropdownMenuItem>
+          {saved && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={remove} variant="destructive">
+                <BookmarkX className="w-4 h-4" />
+                Remove from saved
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CollectionNameDialog
+        open={creating}
+        title="New collection"
+        submitLabel="Create & save"
+        isPending={createCollection.isPending || bookmarkPost.isPending}
+        onSubmit={handleCreate}
+        onClose={() => setCreating(false)}
+      />
+    </>
+  );
+}
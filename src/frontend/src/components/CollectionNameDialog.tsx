@@ -0,0 +1,89 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+const MAX_COLLECTION_NAME = 50;
+
+interface CollectionNameDialogProps {
+  open: boolean;
+  title: string;
+  initialName?: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+/** Asks for the name of a new or renamed bookmark collection. */
+export function CollectionNameDialog({
+  open,
+  title,
+  initialName = "",
+  submitLabel,
+  isPending,
+  onSubmit,
+  onClose,
+}: CollectionNameDialogProps) {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const trimmed = name.trim();
+  const canSubmit = trimmed.length > 0 && trimmed !== initialName && !isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit(trimmed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-sm rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">{title}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            placeholder="Collection name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_COLLECTION_NAME}
+            className="rounded-xl"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              className="rounded-xl"
+              onClick={onClose}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!canSubmit}
+              className="rounded-xl px-5 font-semibold"
+            >
+              {isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                submitLabel
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
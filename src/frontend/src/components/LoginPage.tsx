@@ -16,6 +16,7 @@ import { AnimatePresence, motion } from "motion/react";
 import { useEffect, useRef, useState } from "react";
 import { useActor } from "../hooks/useActor";
 import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import { useIssuedRecoveryCodes } from "../hooks/useQueries";
 
 type PendingOp =
   | { mode: "login"; username: string; password: string }
@@ -60,15 +61,29 @@ const COUNTRY_CODES = [
   { code: "+971", label: "🇦🇪 +971 (UAE)" },
 ];
 
+function formatLockout(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+  return `${seconds}s`;
+}
+
 export function LoginPage() {
   const { login, clear, identity, loginStatus } = useInternetIdentity();
   const { actor, isFetching: actorFetching } = useActor();
+  const { setCodes: setIssuedRecoveryCodes } = useIssuedRecoveryCodes();
 
   // Login tab state
   const [loginUsername, setLoginUsername] = useState("");
   const [loginPassword, setLoginPassword] = useState("");
   const [showLoginPassword, setShowLoginPassword] = useState(false);
   const [loginError, setLoginError] = useState<FormError>(null);
+  // Epoch ms until which the backend refuses further login attempts
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
   // Register tab state
   const [regMode, setRegMode] = useState<RegMode>("username");
@@ -98,10 +113,29 @@ export function LoginPage() {
   clearRef.current = clear;
   const isVerifyingRef = useRef(isVerifying);
   isVerifyingRef.current = isVerifying;
+  const setIssuedRecoveryCodesRef = useRef(setIssuedRecoveryCodes);
+  setIssuedRecoveryCodesRef.current = setIssuedRecoveryCodes;
 
   const isLoggingIn = loginStatus === "logging-in";
   const isBusy = isLoggingIn || isVerifying;
 
+  const lockoutRemaining = lockedUntil ? Math.max(0, lockedUntil - now) : 0;
+  const shownLoginError =
+    lockoutRemaining > 0
+      ? `Too many failed attempts. Try again in ${formatLockout(lockoutRemaining)}.`
+      : loginError;
+
+  // Tick the lockout countdown
+  useEffect(() => {
+    if (lockedUntil === null) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) setLockedUntil(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
   // After II login succeeds and actor is ready, execute the pending credential op
   useEffect(() => {
     const op = pendingOpRef.current;
@@ -114,17 +148,31 @@ export function LoginPage() {
     (async () => {
       try {
         if (op.mode === "login") {
-          const ok = await actor.loginWithCredentials(op.username, op.password);
+          const result = await actor.loginWithCredentials(
+            op.username,
+            op.password,
+          );
           if (cancelled) return;
-          if (!ok) {
-            setLoginError("Invalid username or password. Please try again.");
+          if (!result.success) {
+            if (result.lockedUntil !== undefined) {
+              setNow(Date.now());
+              setLockedUntil(Number(result.lockedUntil / 1_000_000n));
+              setLoginError(null);
+            } else {
+              setLoginError("Invalid username or password. Please try again.");
+            }
             await clearRef.current();
             setPendingOp(null);
           }
-          // If ok === true, App.tsx will see identity truthy and navigate away
+          // On success, App.tsx will see identity truthy and navigate away
         } else {
           // register
-          await actor.registerWithCredentials(op.username, op.password);
+          const codes = await actor.registerWithCredentials(
+            op.username,
+            op.password,
+          );
+          // Shown by App once the login screen is gone
+          setIssuedRecoveryCodesRef.current(codes);
           if (cancelled) return;
           // Redeem referral code silently if one was provided
           if (op.referralCode.trim()) {
@@ -169,6 +217,7 @@ export function LoginPage() {
   // --- Handlers ---
 
   const handleLogin = () => {
+    if (lockoutRemaining > 0) return;
     setLoginError(null);
     const username = loginUsername.trim();
     if (!username) {
@@ -441,7 +490,7 @@ export function LoginPage() {
                   </div>
 
                   <AnimatePresence>
-                    {loginError && (
+                    {shownLoginError && (
                       <motion.p
                         key="login-err"
                         initial={{ opacity: 0, height: 0 }}
@@ -450,14 +499,14 @@ export function LoginPage() {
                         className="text-sm text-destructive font-medium"
                         role="alert"
                       >
-                        {loginError}
+                        {shownLoginError}
                       </motion.p>
                     )}
                   </AnimatePresence>
 
                   <Button
                     type="submit"
-                    disabled={isBusy}
+                    disabled={isBusy || lockoutRemaining > 0}
                     className="w-full h-11 text-base font-semibold rounded-xl mt-1"
                     style={{
                       background:
@@ -0,0 +1,109 @@
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, Play, X } from "lucide-react";
+import { MediaKind } from "../backend";
+import type { DraftMedia } from "../hooks/useDraftMedia";
+
+interface MediaAttachmentsProps {
+  items: DraftMedia[];
+  progress: Record<string, number>;
+  uploading?: boolean;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+}
+
+/** Thumbnail grid for a post's attachments, with reordering and removal. */
+export function MediaAttachments({
+  items,
+  progress,
+  uploading = false,
+  onRemove,
+  onMove,
+}: MediaAttachmentsProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-3">
+      {items.map((item, index) => {
+        const pct = progress[item.id];
+        return (
+          <div
+            key={item.id}
+            className="group relative aspect-square rounded-xl overflow-hidden border border-border/50 bg-muted"
+          >
+            {item.kind === MediaKind.video ? (
+              <>
+                <video
+                  src={item.previewUrl}
+                  className="w-full h-full object-cover"
+                  muted
+                  preload="metadata"
+                />
+                <Play className="absolute inset-0 m-auto w-6 h-6 text-white drop-shadow pointer-events-none" />
+              </>
+            ) : (
+              <img
+                src={item.previewUrl}
+                alt={`Attachment ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+            )}
+
+            <span className="absolute top-1.5 left-1.5 min-w-5 h-5 px-1 rounded-full bg-foreground/70 text-background text-[10px] font-bold flex items-center justify-center">
+              {index + 1}
+            </span>
+
+            {uploading && item.file ? (
+              <div className="absolute inset-x-0 bottom-0 p-1.5 bg-foreground/50">
+                <div className="h-1 rounded-full bg-background/40 overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-background transition-all duration-300"
+                    style={{ width: `${pct ?? 0}%` }}
+                  />
+                </div>
+              </div>
+            ) : (
+              !uploading && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onRemove(item.id)}
+                    className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full bg-foreground/80 hover:bg-foreground text-background flex items-center justify-center transition-colors"
+                    title="Remove"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                  <div className="absolute inset-x-0 bottom-0 flex justify-between p-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      type="button"
+                      onClick={() => onMove(item.id, -1)}
+                      disabled={index === 0}
+                      className={cn(
+                        "w-6 h-6 rounded-full bg-foreground/80 text-background flex items-center justify-center",
+                        index === 0 && "invisible",
+                      )}
+                      title="Move earlier"
+                    >
+                      <ChevronLeft className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onMove(item.id, 1)}
+                      disabled={index === items.length - 1}
+                      className={cn(
+                        "w-6 h-6 rounded-full bg-foreground/80 text-background flex items-center justify-center",
+                        index === items.length - 1 && "invisible",
+                      )}
+                      title="Move later"
+                    >
+                      <ChevronRight className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
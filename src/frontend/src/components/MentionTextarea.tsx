@@ -0,0 +1,165 @@
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { AnimatePresence, motion } from "motion/react";
+import { useRef, useState } from "react";
+import type { UserSearchResult } from "../backend.d";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { useListNavigation } from "../hooks/useListNavigation";
+import { useSearchUsernames } from "../hooks/useQueries";
+import { UserAvatar } from "./UserAvatar";
+
+// Mirrors the backend mention parser: '@' not glued to a preceding handle
+// character, followed by letters, digits or `_ . + -`.
+const MENTION_AT_CARET = /(?<![\p{L}\p{N}_.+-])@([\p{L}\p{N}_.+-]*)$/u;
+
+interface ActiveMention {
+  start: number;
+  query: string;
+}
+
+function activeMention(value: string, caret: number): ActiveMention | null {
+  const match = value.slice(0, caret).match(MENTION_AT_CARET);
+  if (!match || match.index === undefined || !match[1]) return null;
+  return { start: match.index, query: match[1] };
+}
+
+interface MentionTextareaProps
+  extends Omit<React.ComponentProps<"textarea">, "value" | "onChange"> {
+  value: string;
+  onValueChange: (value: string) => void;
+}
+
+/**
+ * Textarea that suggests usernames while an @mention is being typed.
+ * Enter or Tab inserts the highlighted (or first) suggestion; other keys
+ * fall through to `onKeyDown` when no suggestions are showing.
+ */
+export function MentionTextarea({
+  value,
+  onValueChange,
+  onKeyDown,
+  onBlur,
+  className,
+  ...props
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const [focused, setFocused] = useState(false);
+
+  const mention = activeMention(value, caret);
+  const debouncedQuery = useDebouncedValue(mention?.query ?? "", 150);
+  const { data: suggestions = [] } = useSearchUsernames(
+    mention ? debouncedQuery : "",
+  );
+  const open =
+    focused &&
+    !!mention &&
+    mention.start !== dismissedAt &&
+    suggestions.length > 0;
+
+  const insertMention = (result: UserSearchResult) => {
+    if (!mention || !result.username) return;
+    const before = value.slice(0, mention.start);
+    const inserted = `@${result.username} `;
+    const after = value.slice(caret).replace(/^\s+/, "");
+    const nextCaret = before.length + inserted.length;
+    onValueChange(before + inserted + after);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const navigation = useListNavigation(
+    open ? suggestions.length : 0,
+    (index) => insertMention(suggestions[index]),
+    () => setDismissedAt(mention?.start ?? null),
+  );
+
+  const syncCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) =>
+    setCaret(e.currentTarget.selectionStart);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (open) {
+      if (
+        (e.key === "Enter" || e.key === "Tab") &&
+        navigation.activeIndex < 0
+      ) {
+        e.preventDefault();
+        insertMention(suggestions[0]);
+        return;
+      }
+      if (e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[navigation.activeIndex]);
+        return;
+      }
+      navigation.onKeyDown(e);
+      if (e.defaultPrevented || e.key === "Escape") return;
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={syncCaret}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={(e) => {
+          setFocused(false);
+          onBlur?.(e);
+        }}
+        className={className}
+      />
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.12 }}
+            className="absolute top-full left-0 mt-1 z-50 w-64 max-w-full bg-card border border-border/60 rounded-xl card-shadow overflow-hidden py-1"
+          >
+            {suggestions.map((result, index) => (
+              <button
+                key={result.user.toString()}
+                type="button"
+                // Keep focus (and the caret) in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(result)}
+                onMouseEnter={() => navigation.setActiveIndex(index)}
+                className={cn(
+                  "w-full flex items-center gap-2.5 px-3 py-1.5 text-left transition-colors",
+                  index === navigation.activeIndex
+                    ? "bg-muted/70"
+                    : "hover:bg-muted/50",
+                )}
+              >
+                <UserAvatar profile={result.profile} size="sm" />
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold font-display truncate leading-tight">
+                    {result.profile.displayName}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate leading-tight">
+                    @{result.username}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
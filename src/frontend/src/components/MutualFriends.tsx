@@ -0,0 +1,120 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Principal } from "@icp-sdk/core/principal";
+import { useEffect, useState } from "react";
+import type { UserProfile } from "../backend";
+import { useUserProfileCache } from "../hooks/useUserProfileCache";
+import { UserAvatar } from "./UserAvatar";
+
+// Names shown in the summary before the rest are counted
+const NAMED_FRIENDS = 2;
+
+function summarize(names: string[], total: number): string {
+  const others = total - names.length;
+  if (others === 0) {
+    return names.length === 1
+      ? names[0]
+      : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+  }
+  return `${names.join(", ")} and ${others} ${others === 1 ? "other" : "others"}`;
+}
+
+function MutualFriendRow({ principal }: { principal: Principal }) {
+  const { getProfile } = useUserProfileCache();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    getProfile(principal).then(setProfile);
+  }, [principal, getProfile]);
+
+  return (
+    <div className="flex items-center gap-3 py-2">
+      <UserAvatar profile={profile} size="sm" />
+      {profile ? (
+        <p className="text-sm font-semibold font-display truncate">
+          {profile.displayName}
+        </p>
+      ) : (
+        <Skeleton className="w-28 h-3.5 rounded" />
+      )}
+    </div>
+  );
+}
+
+interface MutualFriendsRowProps {
+  mutualFriends: Principal[];
+}
+
+/** "Friends with A, B and N others", opening the full list on click. */
+export function MutualFriendsRow({ mutualFriends }: MutualFriendsRowProps) {
+  const { getProfile } = useUserProfileCache();
+  const [showAll, setShowAll] = useState(false);
+  const [profiles, setProfiles] = useState<(UserProfile | null)[]>([]);
+  const named = mutualFriends.slice(0, NAMED_FRIENDS);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      mutualFriends.slice(0, NAMED_FRIENDS).map((p) => getProfile(p)),
+    ).then((loaded) => {
+      if (!cancelled) setProfiles(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mutualFriends, getProfile]);
+
+  if (mutualFriends.length === 0) return null;
+
+  const names = named.map(
+    (p, i) => profiles[i]?.displayName ?? `${p.toString().slice(0, 8)}…`,
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setShowAll(true)}
+        className="flex items-center gap-2 mb-4 text-left text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <div className="flex -space-x-2 flex-shrink-0">
+          {named.map((p, i) => (
+            <div key={p.toString()} className="rounded-full ring-2 ring-card">
+              <UserAvatar
+                profile={profiles[i] ?? null}
+                size="sm"
+                className="w-6 h-6"
+              />
+            </div>
+          ))}
+        </div>
+        <span>
+          Friends with{" "}
+          <span className="font-semibold text-foreground">
+            {summarize(names, mutualFriends.length)}
+          </span>
+        </span>
+      </button>
+
+      <Dialog open={showAll} onOpenChange={setShowAll}>
+        <DialogContent className="sm:max-w-sm rounded-2xl max-h-[70vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              Mutual friends ({mutualFriends.length})
+            </DialogTitle>
+          </DialogHeader>
+          <div className="divide-y divide-border/50">
+            {mutualFriends.map((p) => (
+              <MutualFriendRow key={p.toString()} principal={p} />
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import {
+  Check,
+  ChevronDown,
+  Globe,
+  Lock,
+  type LucideIcon,
+  UserCheck,
+  Users,
+} from "lucide-react";
+import { PostVisibility } from "../backend";
+
+const AUDIENCES: Record<
+  PostVisibility,
+  { label: string; description: string; icon: LucideIcon }
+> = {
+  [PostVisibility.everyone]: {
+    label: "Public",
+    description: "Anyone, including people who aren't signed in",
+    icon: Globe,
+  },
+  [PostVisibility.friends]: {
+    label: "Friends",
+    description: "Only your friends",
+    icon: Users,
+  },
+  [PostVisibility.followers]: {
+    label: "Followers",
+    description: "Only people who follow you",
+    icon: UserCheck,
+  },
+  [PostVisibility.onlyMe]: {
+    label: "Only me",
+    description: "Nobody else can see this post",
+    icon: Lock,
+  },
+};
+
+const AUDIENCE_ORDER = [
+  PostVisibility.everyone,
+  PostVisibility.friends,
+  PostVisibility.followers,
+  PostVisibility.onlyMe,
+];
+
+export function AudienceIcon({
+  visibility,
+  className,
+}: {
+  visibility: PostVisibility;
+  className?: string;
+}) {
+  const { label, icon: Icon } = AUDIENCES[visibility];
+  return (
+    <span title={`Shared with: ${label}`} className="inline-flex">
+      <Icon className={cn("w-3 h-3", className)} />
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+}
+
+interface AudiencePickerProps {
+  value: PostVisibility;
+  onChange: (value: PostVisibility) => void;
+  disabled?: boolean;
+}
+
+export function AudiencePicker({
+  value,
+  onChange,
+  disabled,
+}: AudiencePickerProps) {
+  const { label, icon: Icon } = AUDIENCES[value];
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 px-2 py-0.5 mt-0.5 rounded-md bg-muted/70 hover:bg-muted text-xs font-semibold text-muted-foreground transition-colors"
+        >
+          <Icon className="w-3 h-3" />
+          {label}
+          <ChevronDown className="w-3 h-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64 rounded-xl">
+        {AUDIENCE_ORDER.map((visibility) => {
+          const audience = AUDIENCES[visibility];
+          return (
+            <DropdownMenuItem
+              key={visibility}
+              onClick={() => onChange(visibility)}
+              className="gap-3 py-2"
+            >
+              <audience.icon className="w-4 h-4 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold">{audience.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {audience.description}
+                </p>
+              </div>
+              {visibility === value && (
+                <Check className="w-4 h-4 text-primary" />
+              )}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,5 @@
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import type { Principal } from "@icp-sdk/core/principal";
 import {
@@ -8,6 +7,10 @@ import {
   ChevronUp,
   Heart,
   MessageCircle,
+  Pencil,
+  Pin,
+  PinOff,
+  Repeat2,
   Send,
   Share2,
   Trash2,
@@ -16,7 +19,7 @@ import { AnimatePresence, motion } from "motion/react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import type { UserProfile } from "../backend";
-import type { Comment, Post } from "../backend.d";
+import type { CommentView, Post } from "../backend.d";
 import { useInternetIdentity } from "../hooks/useInternetIdentity";
 import {
   useAddComment,
@@ -24,38 +27,68 @@ import {
   useCheckCallerHasLiked,
   useDeleteComment,
   useDeletePost,
-  useGetCommentsByPost,
+  useGetCallerUserProfile,
+  useGetCommentCount,
+  useGetComments,
   useGetEmojiReactions,
   useGetLikesCount,
+  useGetPost,
+  useGetRepostCount,
+  useLikeOrUnlikeComment,
   useLikeOrUnlikePost,
+  usePinPost,
+  useUnpinPost,
 } from "../hooks/useQueries";
 import { useUserProfileCache } from "../hooks/useUserProfileCache";
 import { formatRelativeTime } from "../utils/formatTime";
+import { BookmarkMenu } from "./BookmarkMenu";
+import { MentionTextarea } from "./MentionTextarea";
+import { AudienceIcon } from "./PostAudience";
+import { PostContent } from "./PostContent";
+import { PostEditor } from "./PostEditor";
+import { PostHistoryDialog } from "./PostHistoryDialog";
+import { PostMediaCarousel } from "./PostMediaCarousel";
+import { PollView } from "./PostPoll";
+import { QuotedPost, RepostMenu } from "./PostShares";
+import { LIKES_TAB, ReactorsDialog } from "./ReactorsDialog";
 import { UserAvatar } from "./UserAvatar";
+import { UserProfileModal } from "./UserProfileModal";
 
 interface PostCardProps {
   post: Post;
+  // Set where the post is shown first as the author's pinned post
+  pinned?: boolean;
   onDelete?: () => void;
+  onHashtagClick?: (tag: string) => void;
+}
+
+interface CommentItemProps {
+  view: CommentView;
+  currentPrincipal: string | null;
+  postId: bigint;
+  onMentionClick: (user: Principal) => void;
+  onReply: (view: CommentView) => void;
 }
 
 function CommentItem({
-  comment,
+  view,
   currentPrincipal,
   postId,
-}: {
-  comment: Comment;
-  currentPrincipal: string | null;
-  postId: bigint;
-}) {
+  onMentionClick,
+  onReply,
+}: CommentItemProps) {
+  const { comment } = view;
   const { getProfile } = useUserProfileCache();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const deleteComment = useDeleteComment();
+  const likeComment = useLikeOrUnlikeComment();
 
   useEffect(() => {
     getProfile(comment.author).then(setProfile);
   }, [comment.author, getProfile]);
 
   const isOwn = currentPrincipal === comment.author.toString();
+  const likeCount = Number(view.likeCount);
 
   return (
     <motion.div
@@ -69,18 +102,56 @@ function CommentItem({
         className="flex-shrink-0 mt-0.5"
       />
       <div className="flex-1 min-w-0">
-        <div className="bg-muted/60 rounded-2xl px-3 py-2 inline-block max-w-full">
+        <div className="relative bg-muted/60 rounded-2xl px-3 py-2 inline-block max-w-full">
           <p className="text-xs font-semibold text-foreground font-display">
             {profile?.displayName ?? "Unknown User"}
           </p>
-          <p className="text-sm text-foreground font-body leading-snug break-words">
-            {comment.content}
-          </p>
+          <PostContent
+            content={comment.content}
+            mentions={comment.mentions}
+            onMentionClick={onMentionClick}
+            className="text-sm text-foreground font-body leading-snug"
+          />
+          {likeCount > 0 && (
+            <span className="absolute -bottom-2 -right-2 flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-card border border-border/60 text-[10px] text-muted-foreground shadow-sm">
+              <Heart className="w-2.5 h-2.5 fill-current text-rose-500" />
+              {likeCount}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-3 mt-1 px-1">
           <span className="text-xs text-muted-foreground">
             {formatRelativeTime(comment.timestamp)}
           </span>
+          {currentPrincipal && (
+            <>
+              <button
+                type="button"
+                onClick={() =>
+                  likeComment.mutate(
+                    { commentId: comment.id, postId },
+                    { onError: () => toast.error("Failed to update like") },
+                  )
+                }
+                disabled={likeComment.isPending}
+                className={cn(
+                  "text-xs font-semibold transition-colors",
+                  view.likedByCaller
+                    ? "text-rose-500"
+                    : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                Like
+              </button>
+              <button
+                type="button"
+                onClick={() => onReply(view)}
+                className="text-xs font-semibold text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Reply
+              </button>
+            </>
+          )}
           {isOwn && (
             <button
               type="button"
@@ -101,28 +172,264 @@ function CommentItem({
   );
 }
 
+interface CommentComposerProps {
+  postId: bigint;
+  replyTo?: bigint | null;
+  placeholder: string;
+  autoFocus?: boolean;
+  onPosted?: () => void;
+}
+
+function CommentComposer({
+  postId,
+  replyTo = null,
+  placeholder,
+  autoFocus,
+  onPosted,
+}: CommentComposerProps) {
+  const [text, setText] = useState("");
+  const addComment = useAddComment();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = text.trim();
+    if (!content) return;
+    setText("");
+    try {
+      await addComment.mutateAsync({ postId, content, replyTo });
+      onPosted?.();
+    } catch {
+      toast.error("Failed to post comment");
+      setText(content);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <MentionTextarea
+        value={text}
+        onValueChange={setText}
+        placeholder={placeholder}
+        className="resize-none min-h-0 rounded-2xl text-sm py-2 px-3"
+        rows={1}
+        autoFocus={autoFocus}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            void handleSubmit(e as unknown as React.FormEvent);
+          }
+        }}
+      />
+      <Button
+        type="submit"
+        size="icon"
+        className="rounded-xl h-9 w-9 flex-shrink-0 mt-auto"
+        disabled={!text.trim() || addComment.isPending}
+        style={{
+          background:
+            "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+          color: "white",
+        }}
+      >
+        <Send className="w-3.5 h-3.5" />
+      </Button>
+    </form>
+  );
+}
+
+interface CommentThreadProps {
+  view: CommentView;
+  currentPrincipal: string | null;
+  postId: bigint;
+  onMentionClick: (user: Principal) => void;
+}
+
+// A top-level comment with its collapsible replies
+function CommentThread({
+  view,
+  currentPrincipal,
+  postId,
+  onMentionClick,
+}: CommentThreadProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<CommentView | null>(null);
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useGetComments(postId, view.comment.id, expanded);
+  const replies = data?.pages.flatMap((page) => page.comments) ?? [];
+  const replyCount = Number(view.replyCount);
+
+  const handleReply = (target: CommentView) => {
+    setReplyingTo(target);
+    setExpanded(true);
+  };
+
+  return (
+    <div>
+      <CommentItem
+        view={view}
+        currentPrincipal={currentPrincipal}
+        postId={postId}
+        onMentionClick={onMentionClick}
+        onReply={handleReply}
+      />
+      <div className="ml-10 mt-2 space-y-2">
+        {replyCount > 0 && (
+          <button
+            type="button"
+            onClick={() => setExpanded((v) => !v)}
+            className="flex items-center gap-1 text-xs font-semibold text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {expanded ? (
+              <ChevronUp className="w-3.5 h-3.5" />
+            ) : (
+              <ChevronDown className="w-3.5 h-3.5" />
+            )}
+            {expanded
+              ? "Hide replies"
+              : `View ${replyCount} ${replyCount === 1 ? "reply" : "replies"}`}
+          </button>
+        )}
+        {expanded && (
+          <>
+            {isLoading && <Skeleton className="h-10 rounded-2xl" />}
+            {replies.map((reply) => (
+              <CommentItem
+                key={reply.comment.id.toString()}
+                view={reply}
+                currentPrincipal={currentPrincipal}
+                postId={postId}
+                onMentionClick={onMentionClick}
+                onReply={handleReply}
+              />
+            ))}
+            {hasNextPage && (
+              <button
+                type="button"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="text-xs font-semibold text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {isFetchingNextPage ? "Loading…" : "View more replies"}
+              </button>
+            )}
+          </>
+        )}
+        {replyingTo && (
+          <CommentComposer
+            key={replyingTo.comment.id.toString()}
+            postId={postId}
+            replyTo={replyingTo.comment.id}
+            placeholder="Write a reply..."
+            autoFocus
+            onPosted={() => setReplyingTo(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
 const EMOJI_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "😡"] as const;
 
-export function PostCard({ post, onDelete }: PostCardProps) {
+interface RepostProps extends PostCardProps {
+  originalId: bigint;
+}
+
+// A repost shows the original post under a "X reposted" line
+function Repost({ post, originalId, onDelete, onHashtagClick }: RepostProps) {
+  const { identity } = useInternetIdentity();
+  const { getProfile } = useUserProfileCache();
+  const [reposter, setReposter] = useState<UserProfile | null>(null);
+  const { data: original, isLoading } = useGetPost(originalId);
+  const deletePost = useDeletePost();
+  const isOwn = identity?.getPrincipal().toString() === post.author.toString();
+
+  useEffect(() => {
+    getProfile(post.author).then(setReposter);
+  }, [post.author, getProfile]);
+
+  const handleUndo = () => {
+    deletePost.mutate(post.id, {
+      onSuccess: () => {
+        toast.success("Repost removed");
+        onDelete?.();
+      },
+      onError: () => toast.error("Failed to remove repost"),
+    });
+  };
+
+  return (
+    <div>
+      <p className="flex items-center gap-1.5 px-4 pb-1.5 text-xs font-semibold text-muted-foreground">
+        <Repeat2 className="w-3.5 h-3.5" />
+        <span className="truncate">
+          {isOwn ? "You" : (reposter?.displayName ?? "Someone")} reposted
+        </span>
+        <span className="font-normal">
+          · {formatRelativeTime(post.timestamp)}
+        </span>
+        {isOwn && (
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={deletePost.isPending}
+            className="ml-auto hover:text-foreground transition-colors"
+          >
+            Undo
+          </button>
+        )}
+      </p>
+      {isLoading && <Skeleton className="h-40 rounded-2xl" />}
+      {!isLoading &&
+        (original ? (
+          <PostView post={original} onHashtagClick={onHashtagClick} />
+        ) : (
+          <div className="post-card p-6 text-center text-sm text-muted-foreground">
+            This post is no longer available
+          </div>
+        ))}
+    </div>
+  );
+}
+
+export function PostCard(props: PostCardProps) {
+  if (props.post.repostOf === undefined) return <PostView {...props} />;
+  return <Repost {...props} originalId={props.post.repostOf} />;
+}
+
+function PostView({ post, pinned, onDelete, onHashtagClick }: PostCardProps) {
   const { identity } = useInternetIdentity();
   const { getProfile } = useUserProfileCache();
   const [authorProfile, setAuthorProfile] = useState<UserProfile | null>(null);
   const [showComments, setShowComments] = useState(false);
-  const [commentText, setCommentText] = useState("");
+  const [mentionedUser, setMentionedUser] = useState<Principal | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reactorsTab, setReactorsTab] = useState<string | null>(null);
 
   const { data: likesCount = 0n } = useGetLikesCount(post.id);
   const { data: hasLiked = false } = useCheckCallerHasLiked(post.id);
   const likeOrUnlike = useLikeOrUnlikePost();
-  const { data: comments = [], isLoading: commentsLoading } =
-    useGetCommentsByPost(post.id);
-  const addComment = useAddComment();
+  const { data: commentCount = 0n } = useGetCommentCount(post.id);
+  const {
+    data: commentPages,
+    isLoading: commentsLoading,
+    fetchNextPage: fetchMoreComments,
+    hasNextPage: hasMoreComments,
+    isFetchingNextPage: fetchingMoreComments,
+  } = useGetComments(post.id, null, showComments);
+  const comments = commentPages?.pages.flatMap((page) => page.comments) ?? [];
   const deletePost = useDeletePost();
   const { data: emojiReactions = [] } = useGetEmojiReactions(post.id);
+  const { data: repostCount = 0n } = useGetRepostCount(post.id);
+  const { data: myProfile } = useGetCallerUserProfile();
+  const pinPost = usePinPost();
+  const unpinPost = useUnpinPost();
   const addEmojiReaction = useAddEmojiReaction();
 
   const currentPrincipal = identity?.getPrincipal().toString() ?? null;
   const isOwn = currentPrincipal === post.author.toString();
-  const imageUrl = post.image?.getDirectURL();
+  const isPinned = isOwn && myProfile?.pinnedPostId === post.id;
 
   useEffect(() => {
     getProfile(post.author).then(setAuthorProfile);
@@ -138,19 +445,6 @@ export function PostCard({ post, onDelete }: PostCardProps) {
     });
   };
 
-  const handleComment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!commentText.trim() || !identity) return;
-    const text = commentText.trim();
-    setCommentText("");
-    try {
-      await addComment.mutateAsync({ postId: post.id, content: text });
-    } catch {
-      toast.error("Failed to post comment");
-      setCommentText(text);
-    }
-  };
-
   const handleDelete = () => {
     deletePost.mutate(post.id, {
       onSuccess: () => {
@@ -161,6 +455,21 @@ export function PostCard({ post, onDelete }: PostCardProps) {
     });
   };
 
+  const handleTogglePin = () => {
+    const options = {
+      onSuccess: () =>
+        toast.success(
+          isPinned ? "Post unpinned" : "Post pinned to your profile",
+        ),
+      onError: () => toast.error("Failed to update pinned post"),
+    };
+    if (isPinned) {
+      unpinPost.mutate(undefined, options);
+    } else {
+      pinPost.mutate(post.id, options);
+    }
+  };
+
   const handleShare = async () => {
     const authorName =
       authorProfile?.displayName ?? post.author.toString().slice(0, 8);
@@ -194,6 +503,13 @@ export function PostCard({ post, onDelete }: PostCardProps) {
 
   // Build a map of emoji -> count from reaction data
   const reactionMap = new Map<string, bigint>(emojiReactions);
+  const totalReactions = emojiReactions.reduce((sum, [, n]) => sum + n, 0n);
+  // The three most used emojis, shown as a summary that opens the dialog
+  const topReactions = emojiReactions
+    .filter(([, n]) => n > 0n)
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+    .slice(0, 3)
+    .map(([emoji]) => emoji);
 
   return (
     <motion.article
@@ -201,6 +517,13 @@ export function PostCard({ post, onDelete }: PostCardProps) {
       animate={{ opacity: 1, y: 0 }}
       className="post-card"
     >
+      {pinned && (
+        <p className="flex items-center gap-1.5 px-4 pt-3 -mb-2 text-xs font-semibold text-muted-foreground">
+          <Pin className="w-3.5 h-3.5" />
+          Pinned
+        </p>
+      )}
+
       {/* Header */}
       <div className="flex items-start justify-between px-4 pt-4 pb-2">
         <div className="flex items-center gap-3">
@@ -211,40 +534,94 @@ export function PostCard({ post, onDelete }: PostCardProps) {
                 <span className="inline-block w-24 h-4 bg-muted rounded animate-pulse-gentle" />
               )}
             </p>
-            <p className="text-xs text-muted-foreground">
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
               {formatRelativeTime(post.timestamp)}
+              <span>·</span>
+              <AudienceIcon visibility={post.visibility} />
+              {post.editedAt !== undefined && (
+                <>
+                  <span>·</span>
+                  <button
+                    type="button"
+                    onClick={() => setShowHistory(true)}
+                    className="hover:underline hover:text-foreground transition-colors"
+                    title="View edit history"
+                  >
+                    edited
+                  </button>
+                </>
+              )}
             </p>
           </div>
         </div>
-        {isOwn && (
-          <button
-            type="button"
-            onClick={handleDelete}
-            className="text-muted-foreground/50 hover:text-destructive transition-colors p-1.5 rounded-lg hover:bg-destructive/10"
-            title="Delete post"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
+        {identity && !isEditing && (
+          <div className="flex items-center">
+            <BookmarkMenu postId={post.id} />
+            {isOwn && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleTogglePin}
+                  disabled={pinPost.isPending || unpinPost.isPending}
+                  className="text-muted-foreground/50 hover:text-foreground transition-colors p-1.5 rounded-lg hover:bg-muted"
+                  title={isPinned ? "Unpin from profile" : "Pin to profile"}
+                >
+                  {isPinned ? (
+                    <PinOff className="w-4 h-4" />
+                  ) : (
+                    <Pin className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(true)}
+                  className="text-muted-foreground/50 hover:text-foreground transition-colors p-1.5 rounded-lg hover:bg-muted"
+                  title="Edit post"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="text-muted-foreground/50 hover:text-destructive transition-colors p-1.5 rounded-lg hover:bg-destructive/10"
+                  title="Delete post"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
         )}
       </div>
 
+      {isEditing && (
+        <PostEditor post={post} onDone={() => setIsEditing(false)} />
+      )}
+
       {/* Content */}
-      {post.content && (
-        <p className="px-4 pb-3 text-sm md:text-base font-body text-foreground leading-relaxed whitespace-pre-wrap break-words">
-          {post.content}
-        </p>
+      {!isEditing && post.content && (
+        <PostContent
+          content={post.content}
+          mentions={post.mentions}
+          onHashtagClick={onHashtagClick}
+          onMentionClick={setMentionedUser}
+          className="px-4 pb-3 text-sm md:text-base font-body text-foreground leading-relaxed"
+        />
       )}
 
-      {/* Image */}
-      {imageUrl && (
-        <div className="overflow-hidden mx-4 mb-3 rounded-xl border border-border/50">
-          <img
-            src={imageUrl}
-            alt="Post"
-            className="w-full object-cover max-h-[480px]"
-            loading="lazy"
-          />
-        </div>
+      {/* Media */}
+      {!isEditing && post.media.length > 0 && (
+        <PostMediaCarousel media={post.media} className="mx-4 mb-3" />
+      )}
+
+      {/* Poll */}
+      {!isEditing && post.poll && (
+        <PollView postId={post.id} poll={post.poll} />
+      )}
+
+      {/* Quoted post */}
+      {!isEditing && post.quoteOf !== undefined && (
+        <QuotedPost postId={post.quoteOf} className="mx-4 mb-3" />
       )}
 
       {/* Emoji Reactions Bar */}
@@ -278,7 +655,12 @@ export function PostCard({ post, onDelete }: PostCardProps) {
 
       {/* Stats */}
       <div className="px-4 py-1.5 flex items-center gap-3 border-t border-border/60">
-        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <button
+          type="button"
+          onClick={() => setReactorsTab(LIKES_TAB)}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground hover:underline transition-colors"
+          title="See who liked this"
+        >
           <Heart
             className={cn(
               "w-3.5 h-3.5",
@@ -286,10 +668,25 @@ export function PostCard({ post, onDelete }: PostCardProps) {
             )}
           />
           {likesCount.toString()}
-        </span>
+        </button>
+        {totalReactions > 0n && (
+          <button
+            type="button"
+            onClick={() => setReactorsTab(topReactions[0])}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground hover:underline transition-colors"
+            title="See who reacted"
+          >
+            <span className="leading-none">{topReactions.join("")}</span>
+            {totalReactions.toString()}
+          </button>
+        )}
         <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
           <MessageCircle className="w-3.5 h-3.5" />
-          {comments.length}
+          {commentCount.toString()}
+        </span>
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Repeat2 className="w-3.5 h-3.5" />
+          {repostCount.toString()}
         </span>
       </div>
 
@@ -324,6 +721,7 @@ export function PostCard({ post, onDelete }: PostCardProps) {
             <ChevronDown className="w-3.5 h-3.5 ml-0.5" />
           )}
         </button>
+        <RepostMenu post={post} />
         <button
           type="button"
           onClick={handleShare}
@@ -360,49 +758,62 @@ export function PostCard({ post, onDelete }: PostCardProps) {
                   No comments yet. Be the first!
                 </p>
               )}
-              {comments.map((comment) => (
-                <CommentItem
-                  key={comment.id.toString()}
-                  comment={comment}
+              {comments.map((view) => (
+                <CommentThread
+                  key={view.comment.id.toString()}
+                  view={view}
                   currentPrincipal={currentPrincipal}
                   postId={post.id}
+                  onMentionClick={setMentionedUser}
                 />
               ))}
+              {hasMoreComments && (
+                <button
+                  type="button"
+                  onClick={() => fetchMoreComments()}
+                  disabled={fetchingMoreComments}
+                  className="text-xs font-semibold text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {fetchingMoreComments ? "Loading…" : "View more comments"}
+                </button>
+              )}
 
               {identity && (
-                <form onSubmit={handleComment} className="flex gap-2 mt-2">
-                  <Textarea
-                    value={commentText}
-                    onChange={(e) => setCommentText(e.target.value)}
+                <div className="mt-2">
+                  <CommentComposer
+                    postId={post.id}
                     placeholder="Write a comment..."
-                    className="resize-none min-h-0 rounded-2xl text-sm py-2 px-3 flex-1"
-                    rows={1}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter" && !e.shiftKey) {
-                        e.preventDefault();
-                        void handleComment(e as unknown as React.FormEvent);
-                      }
-                    }}
                   />
-                  <Button
-                    type="submit"
-                    size="icon"
-                    className="rounded-xl h-9 w-9 flex-shrink-0 mt-auto"
-                    disabled={!commentText.trim() || addComment.isPending}
-                    style={{
-                      background:
-                        "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
-                      color: "white",
-                    }}
-                  >
-                    <Send className="w-3.5 h-3.5" />
-                  </Button>
-                </form>
+                </div>
               )}
             </div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      <ReactorsDialog
+        postId={post.id}
+        likesCount={likesCount}
+        reactions={emojiReactions}
+        initialTab={reactorsTab}
+        onClose={() => setReactorsTab(null)}
+        onViewProfile={(user) => {
+          setReactorsTab(null);
+          setMentionedUser(user);
+        }}
+      />
+
+      <PostHistoryDialog
+        post={post}
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+      />
+
+      <UserProfileModal
+        open={!!mentionedUser}
+        onClose={() => setMentionedUser(null)}
+        principal={mentionedUser}
+      />
     </motion.article>
   );
 }
@@ -1,75 +1,189 @@
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
-import { Image, Loader2, X } from "lucide-react";
+import { BarChart3, CalendarClock, Image, Loader2, X } from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
-import { ExternalBlob } from "../backend";
-import type { UserProfile } from "../backend";
-import { useCreatePost } from "../hooks/useQueries";
+import { PostVisibility, type UserProfile } from "../backend";
+import { MAX_POST_MEDIA, useDraftMedia } from "../hooks/useDraftMedia";
+import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import {
+  useCreatePost,
+  useGetMyScheduledPosts,
+  useSchedulePost,
+} from "../hooks/useQueries";
+import { clearDraft, loadDraft, saveDraft } from "../utils/draftStore";
+import {
+  formatFullDate,
+  fromDateTimeInputValue,
+  toDateTimeInputValue,
+} from "../utils/formatTime";
+import { MediaAttachments } from "./MediaAttachments";
+import { MentionTextarea } from "./MentionTextarea";
+import { AudiencePicker } from "./PostAudience";
+import {
+  type DraftPoll,
+  PollEditor,
+  emptyPoll,
+  isPollReady,
+  restorePoll,
+  toPoll,
+} from "./PostPoll";
+import { ScheduledPostsDialog } from "./ScheduledPostsDialog";
 import { UserAvatar } from "./UserAvatar";
 
 interface PostComposerProps {
   currentProfile: UserProfile | null;
 }
 
+// What is autosaved while writing; see utils/draftStore
+interface ComposerDraft {
+  content: string;
+  visibility: PostVisibility;
+  poll: DraftPoll | null;
+  scheduleAt: string | null;
+  files: File[];
+}
+
+const DRAFT_SAVE_DELAY_MS = 500;
+
+function inOneHour() {
+  return toDateTimeInputValue(BigInt(Date.now() + 3_600_000) * 1_000_000n);
+}
+
 export function PostComposer({ currentProfile }: PostComposerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [content, setContent] = useState("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [visibility, setVisibility] = useState(PostVisibility.everyone);
+  const [poll, setPoll] = useState<DraftPoll | null>(null);
+  // datetime-local value; null publishes right away
+  const [scheduleAt, setScheduleAt] = useState<string | null>(null);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [draftLoaded, setDraftLoaded] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const draftMedia = useDraftMedia();
   const createPost = useCreatePost();
+  const schedulePost = useSchedulePost();
+  const { data: scheduledPosts = [] } = useGetMyScheduledPosts();
+  const { identity } = useInternetIdentity();
+  const draftKey = identity
+    ? `composer:${identity.getPrincipal().toString()}`
+    : null;
+  const isPending = createPost.isPending || schedulePost.isPending;
+  const { add: addMedia } = draftMedia;
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image must be less than 5MB");
-      return;
-    }
-    setImageFile(file);
-    const url = URL.createObjectURL(file);
-    setImagePreview(url);
+  // Restore the draft left by an earlier visit
+  useEffect(() => {
+    if (!draftKey) return;
+    let cancelled = false;
+    loadDraft<ComposerDraft>(draftKey)
+      .then((draft) => {
+        if (cancelled || !draft) return;
+        setContent(draft.content);
+        setVisibility(draft.visibility);
+        setPoll(draft.poll && restorePoll(draft.poll));
+        setScheduleAt(draft.scheduleAt);
+        if (draft.files.length > 0) addMedia(draft.files);
+        setIsExpanded(true);
+        toast.info("Draft restored");
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setDraftLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [draftKey, addMedia]);
+
+  // Autosave, or drop the saved draft once the composer is empty
+  useEffect(() => {
+    if (!draftKey || !draftLoaded) return;
+    const files = draftMedia.items.flatMap((item) =>
+      item.file ? [item.file] : [],
+    );
+    const timeout = setTimeout(() => {
+      const empty = !content.trim() && files.length === 0 && !poll;
+      const done = empty
+        ? clearDraft(draftKey)
+        : saveDraft<ComposerDraft>(draftKey, {
+            content,
+            visibility,
+            poll,
+            scheduleAt,
+            files,
+          });
+      done.catch(() => {});
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [
+    draftKey,
+    draftLoaded,
+    content,
+    visibility,
+    poll,
+    scheduleAt,
+    draftMedia.items,
+  ]);
+
+  const handleMediaSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) draftMedia.add(e.target.files);
+    e.target.value = "";
   };
 
-  const removeImage = () => {
-    setImageFile(null);
-    if (imagePreview) {
-      URL.revokeObjectURL(imagePreview);
-      setImagePreview(null);
-    }
-    if (fileInputRef.current) fileInputRef.current.value = "";
+  const resetComposer = () => {
+    setContent("");
+    draftMedia.reset();
+    setPoll(null);
+    setScheduleAt(null);
   };
 
   const handleSubmit = async () => {
-    if (!content.trim() && !imageFile) return;
+    if (!content.trim() && draftMedia.items.length === 0 && !poll) return;
 
-    let blob: ExternalBlob | null = null;
-    if (imageFile) {
-      const bytes = new Uint8Array(await imageFile.arrayBuffer());
-      blob = ExternalBlob.fromBytes(bytes).withUploadProgress((pct) => {
-        setUploadProgress(pct);
-      });
+    const publishAt = scheduleAt ? fromDateTimeInputValue(scheduleAt) : null;
+    if (publishAt !== null && publishAt <= BigInt(Date.now()) * 1_000_000n) {
+      toast.error("Pick a time in the future");
+      return;
     }
 
     try {
-      await createPost.mutateAsync({ content: content.trim(), image: blob });
-      setContent("");
-      removeImage();
+      const media = await draftMedia.toPostMedia();
+      if (publishAt === null) {
+        await createPost.mutateAsync({
+          content: content.trim(),
+          media,
+          visibility,
+          poll: poll && toPoll(poll),
+        });
+        toast.success("Post shared!");
+      } else {
+        await schedulePost.mutateAsync({
+          content: content.trim(),
+          media,
+          visibility,
+          poll: poll && toPoll(poll, Number(publishAt / 1_000_000n)),
+          publishAt,
+        });
+        toast.success(`Post scheduled for ${formatFullDate(publishAt)}`);
+      }
+      resetComposer();
       setIsExpanded(false);
-      setUploadProgress(0);
-      toast.success("Post shared!");
     } catch {
-      toast.error("Failed to create post");
-      setUploadProgress(0);
+      toast.error(
+        publishAt === null
+          ? "Failed to create post"
+          : "Failed to schedule post",
+      );
     }
   };
 
   const canPost =
-    (content.trim().length > 0 || imageFile !== null) && !createPost.isPending;
+    (content.trim().length > 0 || draftMedia.items.length > 0 || !!poll) &&
+    (!poll || isPollReady(poll)) &&
+    !isPending;
+  const canAddMedia = draftMedia.items.length < MAX_POST_MEDIA && !isPending;
 
   return (
     <div className="post-card p-4">
@@ -106,13 +220,27 @@ export function PostComposer({ currentProfile }: PostComposerProps) {
                 <p className="font-semibold text-sm font-display text-foreground">
                   {currentProfile?.displayName ?? "You"}
                 </p>
+                <AudiencePicker
+                  value={visibility}
+                  onChange={setVisibility}
+                  disabled={isPending}
+                />
               </div>
+              {scheduledPosts.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowScheduled(true)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                >
+                  <CalendarClock className="w-3.5 h-3.5" />
+                  {scheduledPosts.length} scheduled
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => {
                   setIsExpanded(false);
-                  setContent("");
-                  removeImage();
+                  resetComposer();
                 }}
                 className="text-muted-foreground hover:text-foreground transition-colors p-1"
               >
@@ -120,63 +248,69 @@ export function PostComposer({ currentProfile }: PostComposerProps) {
               </button>
             </div>
 
-            <Textarea
+            <MentionTextarea
               value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="What's on your mind?"
+              onValueChange={setContent}
+              placeholder="What's on your mind? Use @ to mention someone"
               className="resize-none border-0 text-base p-0 focus-visible:ring-0 min-h-[80px] bg-transparent font-body"
               rows={3}
               autoFocus
               maxLength={1000}
             />
 
-            {/* Image preview */}
-            {imagePreview && (
-              <div className="relative mt-3 rounded-xl overflow-hidden border border-border/50">
-                <img
-                  src={imagePreview}
-                  alt="Upload preview"
-                  className="w-full max-h-[300px] object-cover"
+            <MediaAttachments
+              items={draftMedia.items}
+              progress={draftMedia.progress}
+              uploading={isPending}
+              onRemove={draftMedia.remove}
+              onMove={draftMedia.move}
+            />
+
+            {poll && (
+              <PollEditor
+                poll={poll}
+                onChange={setPoll}
+                onRemove={() => setPoll(null)}
+                disabled={isPending}
+              />
+            )}
+
+            {scheduleAt !== null && (
+              <div className="mt-3 flex items-center gap-2 text-sm">
+                <CalendarClock className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-muted-foreground flex-shrink-0">
+                  Publish at
+                </span>
+                <Input
+                  type="datetime-local"
+                  value={scheduleAt}
+                  min={toDateTimeInputValue(BigInt(Date.now()) * 1_000_000n)}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  disabled={isPending}
+                  className="rounded-xl h-8"
                 />
                 <button
                   type="button"
-                  onClick={removeImage}
-                  className="absolute top-2 right-2 w-7 h-7 rounded-full bg-foreground/80 hover:bg-foreground text-background flex items-center justify-center transition-colors"
+                  onClick={() => setScheduleAt(null)}
+                  disabled={isPending}
+                  className="text-muted-foreground hover:text-foreground transition-colors p-1"
+                  title="Publish now instead"
                 >
-                  <X className="w-3.5 h-3.5" />
+                  <X className="w-4 h-4" />
                 </button>
               </div>
             )}
 
-            {/* Upload progress */}
-            {createPost.isPending &&
-              uploadProgress > 0 &&
-              uploadProgress < 100 && (
-                <div className="mt-3">
-                  <div className="h-1.5 rounded-full bg-muted overflow-hidden">
-                    <div
-                      className="h-full rounded-full transition-all duration-300"
-                      style={{
-                        width: `${uploadProgress}%`,
-                        background:
-                          "linear-gradient(90deg, oklch(0.42 0.18 265), oklch(0.58 0.16 220))",
-                      }}
-                    />
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Uploading... {uploadProgress}%
-                  </p>
-                </div>
-              )}
-
             {/* Footer */}
             <div className="flex items-center justify-between mt-4 pt-3 border-t border-border/60">
               <div className="flex items-center gap-1">
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
-                  onChange={handleImageSelect}
+                  accept="image/*,video/*"
+                  multiple
+                  onChange={handleMediaSelect}
+                  disabled={!canAddMedia}
                   className="sr-only"
                   id="post-image-upload"
                 />
@@ -185,11 +319,43 @@ export function PostComposer({ currentProfile }: PostComposerProps) {
                   className={cn(
                     "flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold cursor-pointer transition-colors",
                     "text-muted-foreground hover:bg-muted hover:text-foreground",
+                    !canAddMedia && "opacity-50 cursor-not-allowed",
                   )}
                 >
                   <Image className="w-4 h-4" />
-                  Photo
+                  Photo/Video
+                  {draftMedia.items.length > 0 && (
+                    <span className="text-xs font-normal">
+                      {draftMedia.items.length}/{MAX_POST_MEDIA}
+                    </span>
+                  )}
                 </label>
+                <button
+                  type="button"
+                  onClick={() => setPoll(emptyPoll())}
+                  disabled={!!poll || isPending}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-colors",
+                    "text-muted-foreground hover:bg-muted hover:text-foreground",
+                    "disabled:opacity-50 disabled:cursor-not-allowed",
+                  )}
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  Poll
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setScheduleAt(inOneHour())}
+                  disabled={scheduleAt !== null || isPending}
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-colors",
+                    "text-muted-foreground hover:bg-muted hover:text-foreground",
+                    "disabled:opacity-50 disabled:cursor-not-allowed",
+                  )}
+                >
+                  <CalendarClock className="w-4 h-4" />
+                  Schedule
+                </button>
               </div>
 
               <div className="flex items-center gap-3">
@@ -207,11 +373,13 @@ export function PostComposer({ currentProfile }: PostComposerProps) {
                     color: canPost ? "white" : undefined,
                   }}
                 >
-                  {createPost.isPending ? (
+                  {isPending ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Sharing...
+                      {scheduleAt ? "Scheduling..." : "Sharing..."}
                     </>
+                  ) : scheduleAt ? (
+                    "Schedule"
                   ) : (
                     "Share"
                   )}
@@ -221,6 +389,11 @@ export function PostComposer({ currentProfile }: PostComposerProps) {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <ScheduledPostsDialog
+        open={showScheduled}
+        onClose={() => setShowScheduled(false)}
+      />
     </div>
   );
 }
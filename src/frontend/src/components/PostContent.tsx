@@ -0,0 +1,113 @@
+import { cn } from "@/lib/utils";
+import type { Principal } from "@icp-sdk/core/principal";
+import { useMemo } from "react";
+import type { Mention } from "../backend.d";
+
+// Mirrors the backend parsers: a hashtag is '#' followed by letters, digits
+// or underscores; a mention is '@' (not glued to a preceding handle
+// character) followed by letters, digits or `_ . + -`, minus any trailing
+// '.' or '-'.
+const TOKEN_PATTERN =
+  /#([\p{L}\p{N}_]+)|(?<![\p{L}\p{N}_.+-])@([\p{L}\p{N}_.+-]+)/gu;
+
+interface ContentPart {
+  start: number;
+  text: string;
+  tag?: string;
+  mention?: Mention;
+}
+
+function splitContent(content: string, mentions: Mention[]): ContentPart[] {
+  const parts: ContentPart[] = [];
+  let last = 0;
+  const pushText = (end: number) => {
+    if (end > last) {
+      parts.push({ start: last, text: content.slice(last, end) });
+    }
+    last = end;
+  };
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    if (match[1]) {
+      pushText(start);
+      parts.push({ start, text: match[0], tag: match[1].toLowerCase() });
+      last = start + match[0].length;
+      continue;
+    }
+    // Only mentions the backend resolved when the post was written are
+    // links; anything else stays plain text.
+    const handle = match[2].replace(/[.-]+$/, "");
+    const mention = mentions.find((m) => m.username === handle);
+    if (!mention) continue;
+    pushText(start);
+    parts.push({ start, text: `@${handle}`, mention });
+    last = start + handle.length + 1;
+  }
+  pushText(content.length);
+  return parts;
+}
+
+interface PostContentProps {
+  content: string;
+  mentions?: Mention[];
+  className?: string;
+  onHashtagClick?: (tag: string) => void;
+  onMentionClick?: (user: Principal) => void;
+}
+
+export function PostContent({
+  content,
+  mentions = [],
+  className,
+  onHashtagClick,
+  onMentionClick,
+}: PostContentProps) {
+  const parts = useMemo(
+    () => splitContent(content, mentions),
+    [content, mentions],
+  );
+
+  return (
+    <p className={cn("whitespace-pre-wrap break-words", className)}>
+      {parts.map((part) =>
+        part.mention ? (
+          onMentionClick ? (
+            <button
+              key={part.start}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                if (part.mention) onMentionClick(part.mention.user);
+              }}
+              className="font-semibold text-primary hover:underline"
+            >
+              {part.text}
+            </button>
+          ) : (
+            <span key={part.start} className="font-semibold text-primary">
+              {part.text}
+            </span>
+          )
+        ) : !part.tag ? (
+          <span key={part.start}>{part.text}</span>
+        ) : onHashtagClick ? (
+          <button
+            key={part.start}
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              if (part.tag) onHashtagClick(part.tag);
+            }}
+            className="font-semibold text-primary hover:underline"
+          >
+            {part.text}
+          </button>
+        ) : (
+          <span key={part.start} className="font-semibold text-primary">
+            {part.text}
+          </span>
+        ),
+      )}
+    </p>
+  );
+}
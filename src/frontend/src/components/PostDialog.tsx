@@ -0,0 +1,53 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useGetPost } from "../hooks/useQueries";
+import { PostCard } from "./PostCard";
+
+function DialogPost({
+  postId,
+  onClose,
+}: {
+  postId: bigint;
+  onClose: () => void;
+}) {
+  const { data: post, isLoading } = useGetPost(postId);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 rounded-xl" />;
+  }
+
+  if (!post) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        This post is no longer available
+      </p>
+    );
+  }
+
+  return <PostCard post={post} onDelete={onClose} />;
+}
+
+interface PostDialogProps {
+  // null keeps the dialog closed
+  postId: bigint | null;
+  onClose: () => void;
+}
+
+/** A single post opened on its own, e.g. from a notification. */
+export function PostDialog({ postId, onClose }: PostDialogProps) {
+  return (
+    <Dialog open={postId !== null} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-xl rounded-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display">Post</DialogTitle>
+        </DialogHeader>
+        {postId !== null && <DialogPost postId={postId} onClose={onClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
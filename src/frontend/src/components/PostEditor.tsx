@@ -0,0 +1,142 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Image, Loader2 } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import type { Post } from "../backend.d";
+import { MAX_POST_MEDIA, useDraftMedia } from "../hooks/useDraftMedia";
+import { useEditPost } from "../hooks/useQueries";
+import { MediaAttachments } from "./MediaAttachments";
+import { MentionTextarea } from "./MentionTextarea";
+
+interface PostEditorProps {
+  post: Post;
+  onDone: () => void;
+}
+
+function mediaKey(items: { url: string; kind: string }[]) {
+  return items.map((i) => `${i.kind}:${i.url}`).join("|");
+}
+
+export function PostEditor({ post, onDone }: PostEditorProps) {
+  const [content, setContent] = useState(post.content);
+  const [initialMedia] = useState(() =>
+    post.media.map((m) => ({ url: m.blob.getDirectURL(), kind: m.kind })),
+  );
+  const draftMedia = useDraftMedia(initialMedia);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const editPost = useEditPost();
+  const inputId = `post-edit-media-${post.id}`;
+
+  const handleMediaSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) draftMedia.add(e.target.files);
+    e.target.value = "";
+  };
+
+  const handleSave = async () => {
+    try {
+      const media = await draftMedia.toPostMedia();
+      await editPost.mutateAsync({
+        postId: post.id,
+        content: content.trim(),
+        media,
+      });
+      toast.success("Post updated");
+      onDone();
+    } catch {
+      toast.error("Failed to update post");
+    }
+  };
+
+  const hasMedia = draftMedia.items.length > 0;
+  const unchanged =
+    content.trim() === post.content &&
+    mediaKey(
+      draftMedia.items.map((i) => ({ url: i.previewUrl, kind: i.kind })),
+    ) === mediaKey(initialMedia);
+  const canSave =
+    (content.trim().length > 0 || hasMedia) &&
+    !unchanged &&
+    !editPost.isPending;
+  const canAddMedia =
+    draftMedia.items.length < MAX_POST_MEDIA && !editPost.isPending;
+
+  return (
+    <div className="px-4 pb-3">
+      <MentionTextarea
+        value={content}
+        onValueChange={setContent}
+        className="resize-none rounded-xl text-sm md:text-base font-body min-h-[80px]"
+        rows={3}
+        autoFocus
+        maxLength={1000}
+      />
+
+      <MediaAttachments
+        items={draftMedia.items}
+        progress={draftMedia.progress}
+        uploading={editPost.isPending}
+        onRemove={draftMedia.remove}
+        onMove={draftMedia.move}
+      />
+
+      <div className="flex items-center justify-between mt-3">
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,video/*"
+            multiple
+            onChange={handleMediaSelect}
+            disabled={!canAddMedia}
+            className="sr-only"
+            id={inputId}
+          />
+          <label
+            htmlFor={inputId}
+            className={cn(
+              "flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold cursor-pointer transition-colors",
+              "text-muted-foreground hover:bg-muted hover:text-foreground",
+              !canAddMedia && "opacity-50 cursor-not-allowed",
+            )}
+          >
+            <Image className="w-4 h-4" />
+            Photo/Video
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            className="rounded-xl"
+            onClick={onDone}
+            disabled={editPost.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave}
+            className="rounded-xl px-5 font-semibold"
+            style={{
+              background: canSave
+                ? "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))"
+                : undefined,
+              color: canSave ? "white" : undefined,
+            }}
+          >
+            {editPost.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History } from "lucide-react";
+import { MediaKind, type Post, type PostMedia } from "../backend.d";
+import { useGetPostRevisions } from "../hooks/useQueries";
+import { formatFullDate } from "../utils/formatTime";
+import { PostContent } from "./PostContent";
+
+interface VersionProps {
+  label: string;
+  content: string;
+  media: PostMedia[];
+  timestamp: bigint;
+}
+
+function Version({ label, content, media, timestamp }: VersionProps) {
+  return (
+    <div className="rounded-2xl border border-border/60 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-foreground font-display">
+          {label}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {formatFullDate(timestamp)}
+        </span>
+      </div>
+      {content ? (
+        <PostContent
+          content={content}
+          className="text-sm font-body text-foreground leading-relaxed"
+        />
+      ) : (
+        <p className="text-sm italic text-muted-foreground">No text</p>
+      )}
+      {media.length > 0 && (
+        <div className="grid grid-cols-4 gap-1.5">
+          {media.map((item) =>
+            item.kind === MediaKind.video ? (
+              <video
+                key={item.blob.getDirectURL()}
+                src={item.blob.getDirectURL()}
+                muted
+                preload="metadata"
+                className="aspect-square w-full object-cover rounded-lg border border-border/50 bg-black"
+              />
+            ) : (
+              <img
+                key={item.blob.getDirectURL()}
+                src={item.blob.getDirectURL()}
+                alt="Post"
+                className="aspect-square w-full object-cover rounded-lg border border-border/50"
+                loading="lazy"
+              />
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PostHistoryDialogProps {
+  post: Post;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function PostHistoryDialog({
+  post,
+  open,
+  onClose,
+}: PostHistoryDialogProps) {
+  const { data: revisions = [], isLoading } = useGetPostRevisions(
+    post.id,
+    open,
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-lg rounded-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-display">
+            <History className="w-5 h-5" />
+            Edit history
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Version
+            label="Current"
+            content={post.content}
+            media={post.media}
+            timestamp={post.editedAt ?? post.timestamp}
+          />
+          {isLoading ? (
+            <Skeleton className="h-20 rounded-2xl" />
+          ) : (
+            revisions
+              .map((revision, index) => (
+                <Version
+                  key={revision.timestamp.toString()}
+                  label={index === 0 ? "Original" : `Edit ${index}`}
+                  content={revision.content}
+                  media={revision.media}
+                  timestamp={revision.timestamp}
+                />
+              ))
+              .reverse()
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
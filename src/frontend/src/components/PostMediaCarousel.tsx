@@ -0,0 +1,212 @@
+import {
+  Carousel,
+  type CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { Maximize2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { MediaKind, type PostMedia } from "../backend.d";
+
+// Tracks the selected slide of a carousel
+function useSelectedSlide(api: CarouselApi | undefined) {
+  const [selected, setSelected] = useState(0);
+  useEffect(() => {
+    if (!api) return;
+    const update = () => setSelected(api.selectedScrollSnap());
+    update();
+    api.on("select", update);
+    api.on("reInit", update);
+    return () => {
+      api.off("select", update);
+      api.off("reInit", update);
+    };
+  }, [api]);
+  return selected;
+}
+
+function SlideCounter({
+  selected,
+  total,
+}: { selected: number; total: number }) {
+  return (
+    <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full bg-foreground/70 text-background text-xs font-semibold pointer-events-none">
+      {selected + 1}/{total}
+    </span>
+  );
+}
+
+interface LightboxProps {
+  media: PostMedia[];
+  startIndex: number | null;
+  onClose: () => void;
+}
+
+function Lightbox({ media, startIndex, onClose }: LightboxProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const selected = useSelectedSlide(api);
+
+  return (
+    <Dialog open={startIndex !== null} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent
+        className="w-screen h-[100dvh] max-w-none sm:max-w-none rounded-none border-0 p-0 bg-black/95 flex items-center justify-center"
+        onKeyDown={(e) => {
+          if (e.key === "ArrowLeft") api?.scrollPrev();
+          if (e.key === "ArrowRight") api?.scrollNext();
+        }}
+      >
+        <DialogTitle className="sr-only">Post media</DialogTitle>
+        <Carousel
+          setApi={setApi}
+          opts={{ startIndex: startIndex ?? 0 }}
+          className="w-full"
+        >
+          <CarouselContent>
+            {media.map((item) => {
+              const url = item.blob.getDirectURL();
+              return (
+                <CarouselItem
+                  key={url}
+                  className="flex items-center justify-center h-[85dvh]"
+                >
+                  {item.kind === MediaKind.video ? (
+                    <video
+                      src={url}
+                      controls
+                      playsInline
+                      className="max-w-full max-h-full"
+                    >
+                      <track kind="captions" />
+                    </video>
+                  ) : (
+                    <img
+                      src={url}
+                      alt="Post"
+                      className="max-w-full max-h-full object-contain"
+                    />
+                  )}
+                </CarouselItem>
+              );
+            })}
+          </CarouselContent>
+          {media.length > 1 && (
+            <>
+              <CarouselPrevious className="left-4 bg-black/50 text-white border-white/20 hover:bg-black/70 hover:text-white" />
+              <CarouselNext className="right-4 bg-black/50 text-white border-white/20 hover:bg-black/70 hover:text-white" />
+            </>
+          )}
+        </Carousel>
+        {media.length > 1 && (
+          <span className="absolute bottom-4 left-1/2 -translate-x-1/2 text-sm text-white/80 font-semibold">
+            {selected + 1} / {media.length}
+          </span>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PostMediaCarouselProps {
+  media: PostMedia[];
+  className?: string;
+}
+
+/** A post's photos and videos, swipeable, with a full-screen viewer. */
+export function PostMediaCarousel({
+  media,
+  className,
+}: PostMediaCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const selected = useSelectedSlide(api);
+  const multiple = media.length > 1;
+
+  if (media.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <Carousel
+        setApi={setApi}
+        className="relative rounded-xl overflow-hidden border border-border/50 bg-muted"
+      >
+        <CarouselContent>
+          {media.map((item, index) => {
+            const url = item.blob.getDirectURL();
+            return (
+              <CarouselItem key={url} className="relative">
+                {item.kind === MediaKind.video ? (
+                  <>
+                    <video
+                      src={url}
+                      controls
+                      playsInline
+                      preload="metadata"
+                      className="w-full max-h-[480px] bg-black"
+                    >
+                      <track kind="captions" />
+                    </video>
+                    <button
+                      type="button"
+                      onClick={() => setLightboxIndex(index)}
+                      className="absolute top-2 left-6 w-7 h-7 rounded-full bg-foreground/70 text-background flex items-center justify-center"
+                      title="View full screen"
+                    >
+                      <Maximize2 className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setLightboxIndex(index)}
+                    className="block w-full cursor-zoom-in"
+                  >
+                    <img
+                      src={url}
+                      alt="Post"
+                      className="w-full object-cover max-h-[480px]"
+                      loading="lazy"
+                    />
+                  </button>
+                )}
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+        {multiple && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+            <SlideCounter selected={selected} total={media.length} />
+          </>
+        )}
+      </Carousel>
+
+      {multiple && (
+        <div className="flex justify-center gap-1.5 mt-2">
+          {media.map((item, index) => (
+            <button
+              key={item.blob.getDirectURL()}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                "w-1.5 h-1.5 rounded-full transition-colors",
+                index === selected ? "bg-primary" : "bg-muted-foreground/30",
+              )}
+              title={`Show item ${index + 1}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <Lightbox
+        media={media}
+        startIndex={lightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+      />
+    </div>
+  );
+}
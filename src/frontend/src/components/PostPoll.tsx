@@ -0,0 +1,320 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { Check, Loader2, Plus, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { Poll } from "../backend.d";
+import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import { useGetPollResults, useVotePoll } from "../hooks/useQueries";
+import { formatTimeLeft } from "../utils/formatTime";
+
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+const MAX_OPTION_LENGTH = 80;
+
+const DURATIONS = [
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "3 days", hours: 72 },
+  { label: "1 week", hours: 168 },
+];
+
+export interface DraftPoll {
+  options: { id: number; text: string }[];
+  hours: number;
+  multipleChoice: boolean;
+}
+
+let nextOptionId = 0;
+
+export function emptyPoll(): DraftPoll {
+  return {
+    options: [
+      { id: nextOptionId++, text: "" },
+      { id: nextOptionId++, text: "" },
+    ],
+    hours: 24,
+    multipleChoice: false,
+  };
+}
+
+// Every option filled in and no two alike
+export function isPollReady(poll: DraftPoll) {
+  const texts = poll.options.map((o) => o.text.trim());
+  return (
+    texts.every((t) => t.length > 0) && new Set(texts).size === texts.length
+  );
+}
+
+// A poll restored from a saved draft gets fresh option ids
+export function restorePoll(poll: DraftPoll): DraftPoll {
+  return {
+    ...poll,
+    options: poll.options.map((o) => ({ ...o, id: nextOptionId++ })),
+  };
+}
+
+// The closing time is measured from when the post is published, in
+// milliseconds since the epoch
+export function toPoll(poll: DraftPoll, opensAt = Date.now()): Poll {
+  return {
+    options: poll.options.map((o) => o.text.trim()),
+    closesAt: BigInt(opensAt + poll.hours * 3_600_000) * 1_000_000n,
+    multipleChoice: poll.multipleChoice,
+  };
+}
+
+interface PollEditorProps {
+  poll: DraftPoll;
+  onChange: (poll: DraftPoll) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+/** Poll options, duration and choice mode for the post composer. */
+export function PollEditor({
+  poll,
+  onChange,
+  onRemove,
+  disabled,
+}: PollEditorProps) {
+  const setOption = (id: number, text: string) =>
+    onChange({
+      ...poll,
+      options: poll.options.map((o) => (o.id === id ? { ...o, text } : o)),
+    });
+
+  return (
+    <div className="mt-3 rounded-xl border border-border/60 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold font-display">Poll</span>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="text-muted-foreground hover:text-foreground transition-colors p-1"
+          title="Remove poll"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {poll.options.map((option, index) => (
+          <div key={option.id} className="flex items-center gap-2">
+            <Input
+              value={option.text}
+              onChange={(e) => setOption(option.id, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              maxLength={MAX_OPTION_LENGTH}
+              disabled={disabled}
+              className="rounded-xl"
+            />
+            {poll.options.length > MIN_POLL_OPTIONS && (
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...poll,
+                    options: poll.options.filter((o) => o.id !== option.id),
+                  })
+                }
+                disabled={disabled}
+                className="text-muted-foreground hover:text-destructive transition-colors p-1"
+                title="Remove option"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {poll.options.length < MAX_POLL_OPTIONS && (
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...poll,
+                options: [...poll.options, { id: nextOptionId++, text: "" }],
+              })
+            }
+            disabled={disabled}
+            className="flex items-center gap-1.5 text-xs font-semibold text-primary hover:underline"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add option
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <span className="text-xs text-muted-foreground mr-1">Closes in</span>
+        {DURATIONS.map(({ label, hours }) => (
+          <button
+            key={hours}
+            type="button"
+            onClick={() => onChange({ ...poll, hours })}
+            disabled={disabled}
+            className={cn(
+              "px-2.5 py-0.5 rounded-full text-xs font-semibold transition-colors",
+              poll.hours === hours
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted/70 text-muted-foreground hover:bg-muted",
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          Allow multiple answers
+        </span>
+        <Switch
+          checked={poll.multipleChoice}
+          onCheckedChange={(multipleChoice) =>
+            onChange({ ...poll, multipleChoice })
+          }
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface PollViewProps {
+  postId: bigint;
+  poll: Poll;
+}
+
+/** Voting form, or result bars once the caller has voted or the poll closed. */
+export function PollView({ postId, poll }: PollViewProps) {
+  const { identity } = useInternetIdentity();
+  const [selected, setSelected] = useState<number[]>([]);
+  const { data: results } = useGetPollResults(postId);
+  const votePoll = useVotePoll();
+  const closed =
+    results?.closed ?? BigInt(Date.now()) * 1_000_000n >= poll.closesAt;
+  const showResults = !!results && results.counts.length > 0;
+  const voterCount = Number(results?.voterCount ?? 0n);
+  const callerVote = results?.callerVote?.map(Number) ?? [];
+
+  const toggle = (index: number) => {
+    if (!poll.multipleChoice) {
+      setSelected([index]);
+      return;
+    }
+    setSelected((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index],
+    );
+  };
+
+  const handleVote = () => {
+    if (!identity) {
+      toast.error("Sign in to vote");
+      return;
+    }
+    votePoll.mutate(
+      { postId, optionIndexes: selected.map(BigInt) },
+      { onError: () => toast.error("Failed to record vote") },
+    );
+  };
+
+  return (
+    <div className="mx-4 mb-3 space-y-2">
+      {poll.options.map((option, index) =>
+        showResults ? (
+          <PollResultBar
+            key={option}
+            label={option}
+            count={Number(results.counts[index] ?? 0n)}
+            total={voterCount}
+            chosen={callerVote.includes(index)}
+          />
+        ) : (
+          <button
+            key={option}
+            type="button"
+            onClick={() => toggle(index)}
+            disabled={closed || votePoll.isPending}
+            className={cn(
+              "w-full flex items-center gap-2 px-3 py-2 rounded-xl border text-sm text-left transition-colors",
+              selected.includes(index)
+                ? "border-primary bg-primary/5 text-foreground"
+                : "border-border/60 hover:bg-muted/60 text-foreground",
+            )}
+          >
+            <span
+              className={cn(
+                "w-4 h-4 flex-shrink-0 border flex items-center justify-center",
+                poll.multipleChoice ? "rounded" : "rounded-full",
+                selected.includes(index)
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-muted-foreground/40",
+              )}
+            >
+              {selected.includes(index) && <Check className="w-3 h-3" />}
+            </span>
+            {option}
+          </button>
+        ),
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {voterCount} {voterCount === 1 ? "vote" : "votes"} ·{" "}
+          {closed ? "Final results" : formatTimeLeft(poll.closesAt)}
+          {poll.multipleChoice && !closed && " · Multiple answers"}
+        </p>
+        {!showResults && !closed && (
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleVote}
+            disabled={selected.length === 0 || votePoll.isPending}
+            className="rounded-xl px-4 font-semibold"
+          >
+            {votePoll.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Vote"
+            )}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PollResultBarProps {
+  label: string;
+  count: number;
+  total: number;
+  chosen: boolean;
+}
+
+function PollResultBar({ label, count, total, chosen }: PollResultBarProps) {
+  const percent = total === 0 ? 0 : Math.round((count / total) * 100);
+  return (
+    <div className="relative overflow-hidden rounded-xl border border-border/60 px-3 py-2 text-sm">
+      <div
+        className={cn(
+          "absolute inset-y-0 left-0 transition-all duration-500",
+          chosen ? "bg-primary/20" : "bg-muted",
+        )}
+        style={{ width: `${percent}%` }}
+      />
+      <div className="relative flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 font-medium text-foreground">
+          {label}
+          {chosen && <Check className="w-3.5 h-3.5 text-primary" />}
+        </span>
+        <span className="text-xs font-semibold text-muted-foreground tabular-nums">
+          {percent}%
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { Loader2, PenLine, Repeat2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { UserProfile } from "../backend";
+import { type Post, PostVisibility } from "../backend.d";
+import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import {
+  useCheckCallerHasReposted,
+  useGetPost,
+  useQuotePost,
+  useRepost,
+} from "../hooks/useQueries";
+import { useUserProfileCache } from "../hooks/useUserProfileCache";
+import { formatRelativeTime } from "../utils/formatTime";
+import { MentionTextarea } from "./MentionTextarea";
+import { PostContent } from "./PostContent";
+import { UserAvatar } from "./UserAvatar";
+
+interface QuotedPostProps {
+  postId: bigint;
+  className?: string;
+}
+
+/** Compact, read-only view of the post a quote points to. */
+export function QuotedPost({ postId, className }: QuotedPostProps) {
+  const { getProfile } = useUserProfileCache();
+  const [authorProfile, setAuthorProfile] = useState<UserProfile | null>(null);
+  const { data: post, isLoading } = useGetPost(postId);
+
+  useEffect(() => {
+    if (post) getProfile(post.author).then(setAuthorProfile);
+  }, [post, getProfile]);
+
+  if (isLoading) {
+    return <Skeleton className={cn("h-20 rounded-xl", className)} />;
+  }
+
+  if (!post) {
+    return (
+      <div
+        className={cn(
+          "rounded-xl border border-border/60 bg-muted/40 px-3 py-4 text-center text-xs text-muted-foreground",
+          className,
+        )}
+      >
+        This post is no longer available
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-border/60 px-3 py-2.5 space-y-1.5",
+        className,
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <UserAvatar profile={authorProfile} size="sm" />
+        <span className="text-xs font-semibold font-display text-foreground truncate">
+          {authorProfile?.displayName ?? post.author.toString().slice(0, 8)}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          · {formatRelativeTime(post.timestamp)}
+        </span>
+      </div>
+      {post.content && (
+        <PostContent
+          content={post.content}
+          mentions={post.mentions}
+          className="text-sm font-body text-foreground leading-relaxed line-clamp-4"
+        />
+      )}
+      {post.media.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {post.media.length === 1
+            ? "1 photo or video"
+            : `${post.media.length} photos or videos`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface QuoteDialogProps {
+  post: Post;
+  open: boolean;
+  onClose: () => void;
+}
+
+function QuoteDialog({ post, open, onClose }: QuoteDialogProps) {
+  const [content, setContent] = useState("");
+  const quotePost = useQuotePost();
+  const canPost = content.trim().length > 0 && !quotePost.isPending;
+
+  const handlePost = () => {
+    quotePost.mutate(
+      { postId: post.id, content: content.trim() },
+      {
+        onSuccess: () => {
+          toast.success("Quote posted");
+          setContent("");
+          onClose();
+        },
+        onError: () => toast.error("Failed to quote post"),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-lg rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display">Quote post</DialogTitle>
+        </DialogHeader>
+        <MentionTextarea
+          value={content}
+          onValueChange={setContent}
+          placeholder="Add your thoughts..."
+          className="resize-none rounded-xl text-sm md:text-base font-body min-h-[80px]"
+          rows={3}
+          autoFocus
+          maxLength={1000}
+        />
+        <QuotedPost postId={post.id} />
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            className="rounded-xl"
+            onClick={onClose}
+            disabled={quotePost.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handlePost}
+            disabled={!canPost}
+            className="rounded-xl px-5 font-semibold"
+          >
+            {quotePost.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Post"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RepostMenuProps {
+  post: Post;
+}
+
+/** Action-row button offering to repost or quote a public post. */
+export function RepostMenu({ post }: RepostMenuProps) {
+  const { identity } = useInternetIdentity();
+  const [quoting, setQuoting] = useState(false);
+  const { data: hasReposted = false } = useCheckCallerHasReposted(post.id);
+  const repost = useRepost();
+  const shareable = post.visibility === PostVisibility.everyone;
+
+  const handleRepost = () => {
+    repost.mutate(
+      { postId: post.id, undo: hasReposted },
+      {
+        onSuccess: () =>
+          toast.success(hasReposted ? "Repost removed" : "Reposted"),
+        onError: () => toast.error("Failed to update repost"),
+      },
+    );
+  };
+
+  const buttonClass = cn(
+    "flex-1 flex items-center justify-center gap-2 py-2.5 text-sm font-semibold rounded-lg transition-all duration-150",
+    "hover:bg-muted/80 active:scale-95",
+    hasReposted ? "text-emerald-600" : "text-muted-foreground",
+    !shareable && "opacity-50 cursor-not-allowed",
+  );
+
+  if (!identity || !shareable) {
+    return (
+      <button
+        type="button"
+        onClick={() =>
+          toast.error(
+            identity
+              ? "Only public posts can be reposted"
+              : "Sign in to repost",
+          )
+        }
+        className={buttonClass}
+      >
+        <Repeat2 className="w-4 h-4" strokeWidth={1.5} />
+        Repost
+      </button>
+    );
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button type="button" className={buttonClass}>
+            <Repeat2 className="w-4 h-4" strokeWidth={hasReposted ? 2 : 1.5} />
+            {hasReposted ? "Reposted" : "Repost"}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" className="w-44 rounded-xl">
+          <DropdownMenuItem onClick={handleRepost} disabled={repost.isPending}>
+            <Repeat2 className="w-4 h-4" />
+            {hasReposted ? "Undo repost" : "Repost"}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setQuoting(true)}>
+            <PenLine className="w-4 h-4" />
+            Quote
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <QuoteDialog
+        post={post}
+        open={quoting}
+        onClose={() => setQuoting(false)}
+      />
+    </>
+  );
+}
@@ -48,6 +48,7 @@ export function ProfileSetupModal({
         displayName: displayName.trim(),
         bio: bio.trim(),
         isProfessional: false,
+        isPrivate: false,
       });
       // Mark account as verified for referral tracking (silently)
       try {
@@ -0,0 +1,253 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { Principal } from "@icp-sdk/core/principal";
+import { Heart, UserCheck, UserPlus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { UserSearchResult } from "../backend";
+import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import {
+  RequestStatus,
+  useFollowUser,
+  useGetPostReactors,
+  useSendFriendRequest,
+} from "../hooks/useQueries";
+import { UserAvatar } from "./UserAvatar";
+
+// Tab value for likes; every other tab is named after its emoji
+export const LIKES_TAB = "like";
+
+interface ReactorRowProps {
+  result: UserSearchResult;
+  isSelf: boolean;
+  onViewProfile: (principal: Principal) => void;
+}
+
+function ReactorRow({ result, isSelf, onViewProfile }: ReactorRowProps) {
+  const sendFriendRequest = useSendFriendRequest();
+  const followUser = useFollowUser();
+  const [friendStatus, setFriendStatus] = useState<RequestStatus | null>(
+    (result.friendStatus as RequestStatus | undefined) ?? null,
+  );
+  const [following, setFollowing] = useState(result.isFollowing);
+
+  const handleFollow = () => {
+    setFollowing(true);
+    followUser.mutate(result.user, {
+      onError: () => {
+        toast.error("Failed to follow user");
+        setFollowing(false);
+      },
+    });
+  };
+
+  const handleAddFriend = () => {
+    setFriendStatus(RequestStatus.pending);
+    sendFriendRequest.mutate(result.user, {
+      onSuccess: () => toast.success("Friend request sent!"),
+      onError: () => {
+        toast.error("Failed to send friend request");
+        setFriendStatus(null);
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-1 py-2">
+      <button
+        type="button"
+        onClick={() => onViewProfile(result.user)}
+        className="flex items-center gap-3 flex-1 min-w-0 text-left"
+      >
+        <UserAvatar profile={result.profile} size="sm" />
+        <div className="min-w-0">
+          <p className="font-semibold text-sm font-display truncate leading-tight hover:underline">
+            {result.profile.displayName}
+          </p>
+          {result.username && (
+            <p className="text-xs text-muted-foreground truncate leading-tight">
+              @{result.username}
+            </p>
+          )}
+        </div>
+      </button>
+      {isSelf ? (
+        <span className="text-xs text-muted-foreground px-2">You</span>
+      ) : (
+        <div className="flex items-center gap-1.5 flex-shrink-0">
+          <Button
+            size="sm"
+            variant={following ? "ghost" : "outline"}
+            disabled={following}
+            className="h-7 px-2.5 rounded-lg text-xs font-semibold"
+            onClick={handleFollow}
+          >
+            {following ? "Following" : "Follow"}
+          </Button>
+          {friendStatus === RequestStatus.accepted ? (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled
+              className="h-7 px-2.5 rounded-lg text-xs font-semibold text-muted-foreground"
+            >
+              <UserCheck className="w-3 h-3 mr-1" />
+              Friends
+            </Button>
+          ) : friendStatus === RequestStatus.pending ? (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled
+              className="h-7 px-2.5 rounded-lg text-xs font-semibold text-muted-foreground"
+            >
+              Pending
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="h-7 px-2.5 rounded-lg text-xs font-semibold"
+              style={{
+                background:
+                  "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+                color: "white",
+              }}
+              onClick={handleAddFriend}
+            >
+              <UserPlus className="w-3 h-3 mr-1" />
+              Add
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ReactorListProps {
+  postId: bigint;
+  emoji: string | null;
+  onViewProfile: (principal: Principal) => void;
+}
+
+function ReactorList({ postId, emoji, onViewProfile }: ReactorListProps) {
+  const { identity } = useInternetIdentity();
+  const myPrincipal = identity?.getPrincipal().toString();
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useGetPostReactors(postId, emoji);
+  const reactors = data?.pages.flatMap((page) => page.reactors) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 py-2">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-10 rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (reactors.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        No one yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border/50">
+      {reactors.map((result) => (
+        <ReactorRow
+          key={result.user.toString()}
+          result={result}
+          isSelf={result.user.toString() === myPrincipal}
+          onViewProfile={onViewProfile}
+        />
+      ))}
+      {hasNextPage && (
+        <button
+          type="button"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="w-full pt-2 text-xs font-semibold text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {isFetchingNextPage ? "Loading…" : "Show more"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ReactorsDialogProps {
+  postId: bigint;
+  likesCount: bigint;
+  reactions: Array<[string, bigint]>;
+  // LIKES_TAB or an emoji; null keeps the dialog closed
+  initialTab: string | null;
+  onClose: () => void;
+  onViewProfile: (principal: Principal) => void;
+}
+
+/** Who liked a post and who reacted with each emoji, one tab each. */
+export function ReactorsDialog({
+  postId,
+  likesCount,
+  reactions,
+  initialTab,
+  onClose,
+  onViewProfile,
+}: ReactorsDialogProps) {
+  const emojis = reactions.filter(([, count]) => count > 0n);
+
+  return (
+    <Dialog open={initialTab !== null} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display">Reactions</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue={initialTab ?? LIKES_TAB}>
+          <TabsList className="w-full rounded-xl bg-muted/60 overflow-x-auto justify-start">
+            <TabsTrigger value={LIKES_TAB} className="rounded-lg gap-1 text-xs">
+              <Heart className="w-3.5 h-3.5 fill-current text-rose-500" />
+              {likesCount.toString()}
+            </TabsTrigger>
+            {emojis.map(([emoji, count]) => (
+              <TabsTrigger
+                key={emoji}
+                value={emoji}
+                className="rounded-lg gap-1 text-xs"
+              >
+                <span>{emoji}</span>
+                {count.toString()}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          <TabsContent value={LIKES_TAB} className="mt-2">
+            <ReactorList
+              postId={postId}
+              emoji={null}
+              onViewProfile={onViewProfile}
+            />
+          </TabsContent>
+          {emojis.map(([emoji]) => (
+            <TabsContent key={emoji} value={emoji} className="mt-2">
+              <ReactorList
+                postId={postId}
+                emoji={emoji}
+                onViewProfile={onViewProfile}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
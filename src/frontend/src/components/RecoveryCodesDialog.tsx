@@ -0,0 +1,154 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Copy, Download, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+function codesFileContents(codes: string[], username?: string | null) {
+  return [
+    `SocialConnect recovery codes${username ? ` for ${username}` : ""}`,
+    "",
+    "Each code can be used once to reset your password.",
+    "Keep them somewhere safe.",
+    "",
+    ...codes,
+    "",
+    `Generated ${new Date().toLocaleString()}`,
+  ].join("\n");
+}
+
+interface RecoveryCodesDialogProps {
+  codes: string[] | null;
+  username?: string | null;
+  onClose: () => void;
+}
+
+export function RecoveryCodesDialog({
+  codes,
+  username,
+  onClose,
+}: RecoveryCodesDialogProps) {
+  const [saved, setSaved] = useState(false);
+
+  const handleDownload = () => {
+    if (!codes) return;
+    const blob = new Blob([codesFileContents(codes, username)], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `socialconnect-recovery-codes${username ? `-${username}` : ""}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setSaved(true);
+  };
+
+  const handleCopy = async () => {
+    if (!codes) return;
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Recovery codes copied");
+    } catch {
+      toast.error("Couldn't copy to clipboard");
+    }
+  };
+
+  const handleClose = () => {
+    setSaved(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!codes}>
+      <DialogContent
+        className="sm:max-w-md rounded-2xl"
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <div
+            className="w-12 h-12 rounded-xl mx-auto mb-2 flex items-center justify-center"
+            style={{
+              background:
+                "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+            }}
+          >
+            <ShieldCheck className="w-6 h-6 text-white" />
+          </div>
+          <DialogTitle className="text-center text-xl font-display">
+            Save your recovery codes
+          </DialogTitle>
+          <p className="text-center text-sm text-muted-foreground font-body">
+            If you forget your password, each code lets you reset it once. They
+            won&apos;t be shown again.
+          </p>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 p-4 rounded-2xl border border-border bg-secondary/30">
+          {codes?.map((code) => (
+            <code
+              key={code}
+              className="text-center font-mono text-sm tracking-wider py-1"
+            >
+              {code}
+            </code>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            className="flex-1 rounded-xl gap-2 font-semibold"
+            onClick={handleDownload}
+            style={{
+              background:
+                "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+              color: "white",
+            }}
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="rounded-xl gap-2 font-semibold"
+            onClick={handleCopy}
+          >
+            <Copy className="w-4 h-4" />
+            Copy
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="recoveryCodesSaved"
+            checked={saved}
+            onCheckedChange={(v) => setSaved(v === true)}
+          />
+          <Label htmlFor="recoveryCodesSaved" className="text-sm font-normal">
+            I&apos;ve saved these codes somewhere safe
+          </Label>
+        </div>
+
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full rounded-xl font-semibold"
+          disabled={!saved}
+          onClick={handleClose}
+        >
+          Done
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BarChart3, CalendarClock, Image, Loader2, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type { ScheduledPost } from "../backend";
+import {
+  useCancelScheduledPost,
+  useGetMyScheduledPosts,
+  useReschedulePost,
+} from "../hooks/useQueries";
+import {
+  formatFullDate,
+  fromDateTimeInputValue,
+  toDateTimeInputValue,
+} from "../utils/formatTime";
+import { AudienceIcon } from "./PostAudience";
+
+function ScheduledPostItem({ scheduled }: { scheduled: ScheduledPost }) {
+  const [rescheduling, setRescheduling] = useState(false);
+  const [publishAt, setPublishAt] = useState(() =>
+    toDateTimeInputValue(scheduled.publishAt),
+  );
+  const cancel = useCancelScheduledPost();
+  const reschedule = useReschedulePost();
+
+  const handleCancel = () => {
+    cancel.mutate(scheduled.id, {
+      onSuccess: () => toast.success("Scheduled post cancelled"),
+      onError: () => toast.error("Failed to cancel scheduled post"),
+    });
+  };
+
+  const handleReschedule = () => {
+    reschedule.mutate(
+      {
+        scheduledPostId: scheduled.id,
+        publishAt: fromDateTimeInputValue(publishAt),
+      },
+      {
+        onSuccess: () => {
+          toast.success("Post rescheduled");
+          setRescheduling(false);
+        },
+        onError: () =>
+          toast.error(
+            "Failed to reschedule. Pick a time in the future, before any poll closes.",
+          ),
+      },
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-border/60 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <CalendarClock className="w-3.5 h-3.5" />
+          {formatFullDate(scheduled.publishAt)}
+          <span>·</span>
+          <AudienceIcon visibility={scheduled.visibility} />
+        </span>
+        <div className="flex items-center">
+          <button
+            type="button"
+            onClick={() => setRescheduling((v) => !v)}
+            className="px-2 py-1 rounded-lg font-semibold hover:bg-muted hover:text-foreground transition-colors"
+          >
+            Reschedule
+          </button>
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={cancel.isPending}
+            className="text-muted-foreground/50 hover:text-destructive transition-colors p-1.5 rounded-lg hover:bg-destructive/10"
+            title="Cancel scheduled post"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {scheduled.content ? (
+        <p className="text-sm font-body text-foreground line-clamp-3 whitespace-pre-wrap">
+          {scheduled.content}
+        </p>
+      ) : (
+        <p className="text-sm italic text-muted-foreground">No text</p>
+      )}
+
+      {(scheduled.media.length > 0 || scheduled.poll) && (
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          {scheduled.media.length > 0 && (
+            <span className="flex items-center gap-1">
+              <Image className="w-3.5 h-3.5" />
+              {scheduled.media.length}
+            </span>
+          )}
+          {scheduled.poll && (
+            <span className="flex items-center gap-1">
+              <BarChart3 className="w-3.5 h-3.5" />
+              Poll
+            </span>
+          )}
+        </div>
+      )}
+
+      {rescheduling && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="datetime-local"
+            value={publishAt}
+            min={toDateTimeInputValue(BigInt(Date.now()) * 1_000_000n)}
+            onChange={(e) => setPublishAt(e.target.value)}
+            className="rounded-xl"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleReschedule}
+            disabled={!publishAt || reschedule.isPending}
+            className="rounded-xl"
+          >
+            {reschedule.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ScheduledPostsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** The caller's posts waiting to be published, soonest first. */
+export function ScheduledPostsDialog({
+  open,
+  onClose,
+}: ScheduledPostsDialogProps) {
+  const { data: scheduled = [], isLoading } = useGetMyScheduledPosts();
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-lg rounded-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 font-display">
+            <CalendarClock className="w-5 h-5" />
+            Scheduled posts
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isLoading && <Skeleton className="h-20 rounded-2xl" />}
+          {!isLoading && scheduled.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Nothing scheduled
+            </p>
+          )}
+          {scheduled.map((item) => (
+            <ScheduledPostItem key={item.id.toString()} scheduled={item} />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,20 +16,25 @@ import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import type { Principal } from "@icp-sdk/core/principal";
 import {
+  Ban,
   Briefcase,
   ExternalLink,
   Film,
   Key,
   Loader2,
+  Lock,
   MessageSquare,
   Monitor,
   Moon,
   Plus,
+  RefreshCw,
+  ShieldCheck,
   Sun,
   Trash2,
   Upload,
   UserCheck,
   Users,
+  VolumeX,
   X,
 } from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
@@ -39,21 +44,32 @@ import { ExternalBlob, type Group, type UserProfile } from "../backend";
 import { useInternetIdentity } from "../hooks/useInternetIdentity";
 import {
   useAddGroupMember,
+  useBlockUser,
+  useChangePassword,
   useCreateGroup,
   useCreateReel,
   useDeleteGroup,
   useDeleteReel,
   useGetAllReels,
+  useGetBlockedUsers,
   useGetCallerUserProfile,
   useGetFriends,
   useGetGroupMessages,
+  useGetMutedUsers,
   useGetMyGroups,
+  useGetMyUsername,
+  useGetRecoveryCodesRemaining,
+  useMuteUser,
+  useRegenerateRecoveryCodes,
+  useResetPasswordWithRecoveryCode,
   useSaveProfile,
   useSendGroupMessage,
 } from "../hooks/useQueries";
 import type { Theme } from "../hooks/useTheme";
 import { useUserProfileCache } from "../hooks/useUserProfileCache";
+import { RecoveryCodesDialog } from "./RecoveryCodesDialog";
 import { useThemeContext } from "./ThemeProvider";
+import { UserAvatar } from "./UserAvatar";
 
 function getInitials(name: string | undefined | null): string {
   if (!name) return "?";
@@ -135,7 +151,237 @@ function ThemeTab() {
 
 // ── Account Tab ───────────────────────────────────────────────────────────
 
+function ChangePasswordCard({ username }: { username: string }) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [currentSecret, setCurrentSecret] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const changePassword = useChangePassword();
+  const resetWithCode = useResetPasswordWithRecoveryCode();
+  const isPending = changePassword.isPending || resetWithCode.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!currentSecret.trim()) {
+      setError(
+        useRecoveryCode
+          ? "Enter one of your recovery codes."
+          : "Enter your current password.",
+      );
+      return;
+    }
+    if (newPassword.length < 6) {
+      setError("New password must be at least 6 characters.");
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+    try {
+      if (useRecoveryCode) {
+        const ok = await resetWithCode.mutateAsync({
+          username,
+          code: currentSecret,
+          newPassword,
+        });
+        if (!ok) {
+          setError("That recovery code is invalid or has already been used.");
+          return;
+        }
+      } else {
+        await changePassword.mutateAsync({
+          oldPassword: currentSecret,
+          newPassword,
+        });
+      }
+      toast.success("Password updated");
+      setCurrentSecret("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setUseRecoveryCode(false);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "";
+      if (message.includes("Too many failed attempts")) {
+        setError("Too many failed attempts. Try again later.");
+      } else if (message.includes("incorrect")) {
+        setError("Your current password is incorrect.");
+      } else {
+        setError("Failed to update password. Please try again.");
+      }
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-2xl border border-border bg-secondary/30 space-y-3">
+      <div className="flex items-center gap-3">
+        <div
+          className="w-10 h-10 rounded-xl flex items-center justify-center flex-shrink-0"
+          style={{
+            background:
+              "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+          }}
+        >
+          <Key className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <p className="font-semibold text-sm font-display">Change Password</p>
+          <p className="text-xs text-muted-foreground">
+            Signed in as {username}
+          </p>
+        </div>
+      </div>
+      <Separator />
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="currentSecret" className="text-sm font-semibold">
+            {useRecoveryCode ? "Recovery code" : "Current password"}
+          </Label>
+          <Input
+            id="currentSecret"
+            type={useRecoveryCode ? "text" : "password"}
+            autoComplete={useRecoveryCode ? "off" : "current-password"}
+            placeholder={useRecoveryCode ? "xxxxx-xxxxx" : undefined}
+            value={currentSecret}
+            onChange={(e) => setCurrentSecret(e.target.value)}
+            className={cn("rounded-xl", useRecoveryCode && "font-mono")}
+          />
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode((v) => !v);
+              setCurrentSecret("");
+              setError(null);
+            }}
+            className="text-xs font-semibold text-primary hover:underline"
+          >
+            {useRecoveryCode
+              ? "Use my current password instead"
+              : "Forgot your password? Use a recovery code"}
+          </button>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="newPassword" className="text-sm font-semibold">
+            New password
+          </Label>
+          <Input
+            id="newPassword"
+            type="password"
+            autoComplete="new-password"
+            placeholder="min. 6 characters"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="rounded-xl"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="confirmPassword" className="text-sm font-semibold">
+            Confirm new password
+          </Label>
+          <Input
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="rounded-xl"
+          />
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <Button
+          type="submit"
+          size="sm"
+          className="rounded-xl gap-2 font-semibold"
+          disabled={isPending}
+          style={{
+            background:
+              "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+            color: "white",
+          }}
+        >
+          {isPending && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          Update Password
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+function RecoveryCodesCard({ username }: { username: string }) {
+  const { data: remaining = 0n, isLoading } = useGetRecoveryCodesRemaining();
+  const regenerate = useRegenerateRecoveryCodes();
+  const [codes, setCodes] = useState<string[] | null>(null);
+
+  const handleRegenerate = async () => {
+    try {
+      setCodes(await regenerate.mutateAsync());
+    } catch {
+      toast.error("Failed to generate recovery codes");
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-2xl border border-border bg-secondary/30 space-y-3">
+      <div className="flex items-center gap-3">
+        <div
+          className="w-10 h-10 rounded-xl flex items-center justify-center flex-shrink-0"
+          style={{
+            background:
+              "linear-gradient(135deg, oklch(0.55 0.16 155), oklch(0.62 0.15 175))",
+          }}
+        >
+          <ShieldCheck className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <p className="font-semibold text-sm font-display">Recovery Codes</p>
+          <p className="text-xs text-muted-foreground">
+            {isLoading
+              ? "Checking…"
+              : `${remaining.toString()} unused code${remaining === 1n ? "" : "s"} left`}
+          </p>
+        </div>
+      </div>
+      <Separator />
+      <p className="text-sm text-muted-foreground leading-relaxed">
+        Each recovery code lets you set a new password once if you forget the
+        current one. Generating new codes invalidates all previous ones.
+      </p>
+      {!isLoading && remaining <= 2n && (
+        <p className="text-xs font-semibold text-destructive">
+          {remaining === 0n
+            ? "You have no recovery codes left."
+            : "You're running low on recovery codes."}{" "}
+          Generate a new set and download it.
+        </p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="rounded-xl gap-2 font-semibold"
+        onClick={handleRegenerate}
+        disabled={regenerate.isPending}
+      >
+        {regenerate.isPending ? (
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        ) : (
+          <RefreshCw className="w-3.5 h-3.5" />
+        )}
+        Generate New Codes
+      </Button>
+      <RecoveryCodesDialog
+        codes={codes}
+        username={username}
+        onClose={() => setCodes(null)}
+      />
+    </div>
+  );
+}
+
 function AccountTab() {
+  const { data: username } = useGetMyUsername();
+
   return (
     <div className="space-y-6">
       <div>
@@ -148,6 +394,13 @@ function AccountTab() {
       </div>
 
       <div className="space-y-4">
+        {username && (
+          <>
+            <ChangePasswordCard username={username} />
+            <RecoveryCodesCard username={username} />
+          </>
+        )}
+
         <div className="p-4 rounded-2xl border border-border bg-secondary/30 space-y-3">
           <div className="flex items-center gap-3">
             <div
@@ -161,7 +414,7 @@ function AccountTab() {
             </div>
             <div>
               <p className="font-semibold text-sm font-display">
-                Change Password
+                Internet Identity
               </p>
               <p className="text-xs text-muted-foreground">
                 Update your Internet Identity credentials
@@ -203,7 +456,7 @@ function AccountTab() {
             </div>
             <div>
               <p className="font-semibold text-sm font-display">
-                Forgot Password / Recovery
+                Identity Recovery
               </p>
               <p className="text-xs text-muted-foreground">
                 Recover access to your account
@@ -236,6 +489,171 @@ function AccountTab() {
   );
 }
 
+// ── Privacy Tab ───────────────────────────────────────────────────────────
+
+function RestrictedUserRow({
+  principal,
+  actionLabel,
+  pending,
+  onAction,
+}: {
+  principal: Principal;
+  actionLabel: string;
+  pending: boolean;
+  onAction: (principal: Principal) => void;
+}) {
+  const { getProfile } = useUserProfileCache();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    getProfile(principal).then(setProfile);
+  }, [principal, getProfile]);
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl border border-border bg-secondary/30">
+      <UserAvatar profile={profile} size="sm" />
+      <p className="flex-1 min-w-0 text-sm font-semibold font-display truncate">
+        {profile?.displayName ?? principal.toString().slice(0, 10)}
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        className="rounded-xl font-semibold"
+        disabled={pending}
+        onClick={() => onAction(principal)}
+      >
+        {actionLabel}
+      </Button>
+    </div>
+  );
+}
+
+function PrivacyTab() {
+  const { data: blocked = [], isLoading: blockedLoading } =
+    useGetBlockedUsers();
+  const { data: muted = [], isLoading: mutedLoading } = useGetMutedUsers();
+  const blockUser = useBlockUser();
+  const muteUser = useMuteUser();
+  const { data: profile } = useGetCallerUserProfile();
+  const saveProfile = useSaveProfile();
+
+  const handlePrivateChange = async (isPrivate: boolean) => {
+    if (!profile) return;
+    try {
+      await saveProfile.mutateAsync({ ...profile, isPrivate });
+      toast.success(
+        isPrivate
+          ? "Your account is now private"
+          : "Your account is now public",
+      );
+    } catch {
+      toast.error("Failed to update account privacy");
+    }
+  };
+
+  const handleUnblock = (user: Principal) => {
+    blockUser.mutate(
+      { user, undo: true },
+      {
+        onSuccess: () => toast.success("User unblocked"),
+        onError: () => toast.error("Failed to unblock user"),
+      },
+    );
+  };
+
+  const handleUnmute = (user: Principal) => {
+    muteUser.mutate(
+      { user, undo: true },
+      {
+        onSuccess: () => toast.success("User unmuted"),
+        onError: () => toast.error("Failed to unmute user"),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 p-4 rounded-2xl border border-border bg-secondary/30">
+        <div>
+          <p className="font-semibold text-sm font-display flex items-center gap-2">
+            <Lock className="w-4 h-4" />
+            Private account
+          </p>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Only followers you approve and your friends see your posts, reels
+            and follower lists. Going public approves everyone waiting.
+          </p>
+        </div>
+        <Switch
+          checked={profile?.isPrivate ?? false}
+          onCheckedChange={handlePrivateChange}
+          disabled={!profile || saveProfile.isPending}
+        />
+      </div>
+
+      <Separator />
+
+      <div>
+        <h3 className="font-display font-semibold text-base mb-1 flex items-center gap-2">
+          <Ban className="w-4 h-4" />
+          Blocked users
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          You and blocked users can&apos;t see each other&apos;s posts, message,
+          call, follow or send friend requests.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {blockedLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+        {!blockedLoading && blocked.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            You haven&apos;t blocked anyone
+          </p>
+        )}
+        {blocked.map((user) => (
+          <RestrictedUserRow
+            key={user.toString()}
+            principal={user}
+            actionLabel="Unblock"
+            pending={blockUser.isPending}
+            onAction={handleUnblock}
+          />
+        ))}
+      </div>
+
+      <Separator />
+
+      <div>
+        <h3 className="font-display font-semibold text-base mb-1 flex items-center gap-2">
+          <VolumeX className="w-4 h-4" />
+          Muted users
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Posts from muted users are hidden from your feeds. They aren&apos;t
+          told they&apos;re muted.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {mutedLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+        {!mutedLoading && muted.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            You haven&apos;t muted anyone
+          </p>
+        )}
+        {muted.map((user) => (
+          <RestrictedUserRow
+            key={user.toString()}
+            principal={user}
+            actionLabel="Unmute"
+            pending={muteUser.isPending}
+            onAction={handleUnmute}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ── Group Chat Thread ─────────────────────────────────────────────────────
 
 interface GroupThreadProps {
@@ -1040,6 +1458,13 @@ export function SettingsModal({
               <Key className="w-3.5 h-3.5" />
               <span className="hidden sm:inline">Account</span>
             </TabsTrigger>
+            <TabsTrigger
+              value="privacy"
+              className="flex-1 rounded-lg text-xs sm:text-sm gap-1"
+            >
+              <Ban className="w-3.5 h-3.5" />
+              <span className="hidden sm:inline">Privacy</span>
+            </TabsTrigger>
             <TabsTrigger
               value="groups"
               className="flex-1 rounded-lg text-xs sm:text-sm gap-1"
@@ -1071,6 +1496,9 @@ export function SettingsModal({
               <TabsContent value="account" className="mt-0">
                 <AccountTab />
               </TabsContent>
+              <TabsContent value="privacy" className="mt-0">
+                <PrivacyTab />
+              </TabsContent>
               <TabsContent value="groups" className="mt-0 h-[calc(60vh-8rem)]">
                 {myPrincipal && <GroupsTab myPrincipal={myPrincipal} />}
               </TabsContent>
@@ -6,35 +6,56 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { Principal } from "@icp-sdk/core/principal";
 import {
+  Ban,
   Briefcase,
+  Lock,
   MessageCircle,
+  MoreHorizontal,
+  Pin,
+  Repeat2,
   ShoppingBag,
   UserCheck,
   UserPlus,
+  Volume2,
+  VolumeX,
   X,
 } from "lucide-react";
 import { motion } from "motion/react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
-import type { UserProfile } from "../backend";
+import { MediaKind, type UserProfile } from "../backend";
 import { useActor } from "../hooks/useActor";
 import { useInternetIdentity } from "../hooks/useInternetIdentity";
 import {
   RequestStatus,
+  useBlockUser,
+  useCancelFollowRequest,
+  useCheckFollowRequested,
   useFollowUser,
+  useGetBlockedUsers,
   useGetFollowers,
   useGetFollowing,
   useGetFriends,
+  useGetMutedUsers,
   useGetPostsByUser,
+  useGetRelationship,
   useGetStoreListingsByUser,
+  useMuteUser,
   useSendFriendRequest,
 } from "../hooks/useQueries";
 import { useUserProfileCache } from "../hooks/useUserProfileCache";
 import { formatRelativeTime } from "../utils/formatTime";
+import { MutualFriendsRow } from "./MutualFriends";
 import { UserAvatar } from "./UserAvatar";
 
 interface UserProfileModalProps {
@@ -66,6 +87,9 @@ export function UserProfileModal({
   const { getProfile } = useUserProfileCache();
   const sendFriendRequest = useSendFriendRequest();
   const followUser = useFollowUser();
+  const cancelFollowRequest = useCancelFollowRequest();
+  const blockUser = useBlockUser();
+  const muteUser = useMuteUser();
 
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [profileLoading, setProfileLoading] = useState(false);
@@ -85,6 +109,12 @@ export function UserProfileModal({
 
   const myPrincipal = identity?.getPrincipal();
   const { data: myFollowing = [] } = useGetFollowing(myPrincipal ?? null);
+  const { data: followRequested = false } = useCheckFollowRequested(
+    open ? principal : null,
+  );
+  const { data: relationship } = useGetRelationship(open ? principal : null);
+  const { data: blockedUsers = [] } = useGetBlockedUsers();
+  const { data: mutedUsers = [] } = useGetMutedUsers();
 
   // Load profile and friend status when modal opens
   useEffect(() => {
@@ -135,9 +165,19 @@ export function UserProfileModal({
       ? principal.toString() === myPrincipal.toString()
       : false;
 
+  const isBlocked = blockedUsers.some(
+    (p) => p.toString() === principal?.toString(),
+  );
+  const isMuted = mutedUsers.some(
+    (p) => p.toString() === principal?.toString(),
+  );
+
   const isFriend = friends.some(
     (p) => p.toString() === myPrincipal?.toString(),
   );
+  // Private accounts only open up to approved followers and friends
+  const isLocked =
+    !!profile?.isPrivate && !isOwnProfile && !optimisticFollowing && !isFriend;
   const effectiveStatus = isFriend
     ? RequestStatus.accepted
     : (optimisticFriendStatus ?? friendStatus);
@@ -159,6 +199,13 @@ export function UserProfileModal({
 
   const handleFollow = () => {
     if (!principal) return;
+    if (profile?.isPrivate) {
+      followUser.mutate(principal, {
+        onSuccess: () => toast.success("Follow request sent"),
+        onError: () => toast.error("Failed to request to follow"),
+      });
+      return;
+    }
     setOptimisticFollowing(true);
     followUser.mutate(principal, {
       onSuccess: () => toast.success("Now following!"),
@@ -169,13 +216,60 @@ export function UserProfileModal({
     });
   };
 
+  const handleCancelFollowRequest = () => {
+    if (!principal) return;
+    cancelFollowRequest.mutate(principal, {
+      onSuccess: () => toast.success("Follow request cancelled"),
+      onError: () => toast.error("Failed to cancel follow request"),
+    });
+  };
+
+  const handleBlock = () => {
+    if (!principal) return;
+    blockUser.mutate(
+      { user: principal, undo: isBlocked },
+      {
+        onSuccess: () => {
+          toast.success(isBlocked ? "User unblocked" : "User blocked");
+          if (!isBlocked) {
+            setOptimisticFollowing(false);
+            setFriendStatus(null);
+            setOptimisticFriendStatus(null);
+          }
+        },
+        onError: () =>
+          toast.error(
+            isBlocked ? "Failed to unblock user" : "Failed to block user",
+          ),
+      },
+    );
+  };
+
+  const handleMute = () => {
+    if (!principal) return;
+    muteUser.mutate(
+      { user: principal, undo: isMuted },
+      {
+        onSuccess: () => toast.success(isMuted ? "User unmuted" : "User muted"),
+        onError: () =>
+          toast.error(
+            isMuted ? "Failed to unmute user" : "Failed to mute user",
+          ),
+      },
+    );
+  };
+
   const handleMessage = () => {
     if (!principal || !onMessage) return;
     onMessage(principal);
     onClose();
   };
 
+  // Newest first, with the pinned post ahead of the rest
+  const pinnedPostId = profile?.pinnedPostId;
   const sortedPosts = [...posts].sort((a, b) => {
+    if (a.id === pinnedPostId) return -1;
+    if (b.id === pinnedPostId) return 1;
     const tA = Number(a.timestamp / 1_000_000n);
     const tB = Number(b.timestamp / 1_000_000n);
     return tB - tA;
@@ -257,6 +351,14 @@ export function UserProfileModal({
                       Pro
                     </Badge>
                   )}
+                  {!isOwnProfile && relationship?.followsYou && (
+                    <Badge
+                      variant="secondary"
+                      className="text-xs font-semibold px-2 py-0.5 rounded-full"
+                    >
+                      Follows you
+                    </Badge>
+                  )}
                 </div>
                 {profile?.bio && (
                   <p className="text-sm text-muted-foreground mt-1 leading-snug">
@@ -268,29 +370,78 @@ export function UserProfileModal({
 
             {/* Stats row */}
             <div className="flex items-center gap-5 py-3 border-y border-border/60 mb-4">
-              <StatBox label="Posts" value={posts.length} />
+              <StatBox label="Posts" value={isLocked ? "—" : posts.length} />
               <div className="w-px h-8 bg-border/60" />
               <StatBox label="Friends" value={friends.length} />
               <div className="w-px h-8 bg-border/60" />
-              <StatBox label="Followers" value={followers.length} />
+              <StatBox
+                label="Followers"
+                value={isLocked ? "—" : followers.length}
+              />
               <div className="w-px h-8 bg-border/60" />
-              <StatBox label="Following" value={following.length} />
+              <StatBox
+                label="Following"
+                value={isLocked ? "—" : following.length}
+              />
             </div>
 
+            {!isOwnProfile && relationship && (
+              <MutualFriendsRow mutualFriends={relationship.mutualFriends} />
+            )}
+
             {/* Action buttons */}
-            {!isOwnProfile && (
-              <div className="flex gap-2 mb-5 flex-wrap">
-                {/* Follow button */}
+            {!isOwnProfile && isBlocked && (
+              <div className="flex gap-2 mb-5">
                 <Button
                   size="sm"
-                  variant={optimisticFollowing ? "outline" : "outline"}
-                  disabled={optimisticFollowing}
+                  variant="outline"
                   className="flex-1 h-9 rounded-xl text-sm font-semibold gap-1.5"
-                  onClick={handleFollow}
+                  onClick={handleBlock}
+                  disabled={blockUser.isPending}
                 >
-                  <UserCheck className="w-4 h-4" />
-                  {optimisticFollowing ? "Following" : "Follow"}
+                  <Ban className="w-4 h-4" />
+                  Unblock
                 </Button>
+              </div>
+            )}
+            {!isOwnProfile && !isBlocked && (
+              <div className="flex gap-2 mb-5 flex-wrap">
+                {/* Follow button */}
+                {isLocked && followRequested ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="flex-1 h-9 rounded-xl text-sm font-semibold text-muted-foreground gap-1.5"
+                    onClick={handleCancelFollowRequest}
+                    disabled={cancelFollowRequest.isPending}
+                    title="Cancel follow request"
+                  >
+                    <Lock className="w-4 h-4" />
+                    Requested
+                  </Button>
+                ) : isLocked ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 h-9 rounded-xl text-sm font-semibold gap-1.5"
+                    onClick={handleFollow}
+                    disabled={followUser.isPending}
+                  >
+                    <Lock className="w-4 h-4" />
+                    Request to follow
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant={optimisticFollowing ? "outline" : "outline"}
+                    disabled={optimisticFollowing}
+                    className="flex-1 h-9 rounded-xl text-sm font-semibold gap-1.5"
+                    onClick={handleFollow}
+                  >
+                    <UserCheck className="w-4 h-4" />
+                    {optimisticFollowing ? "Following" : "Follow"}
+                  </Button>
+                )}
 
                 {/* Friend button */}
                 {isAccepted ? (
@@ -341,58 +492,120 @@ export function UserProfileModal({
                     Message
                   </Button>
                 )}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-9 w-9 p-0 rounded-xl"
+                      title="More"
+                    >
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-40 rounded-xl">
+                    <DropdownMenuItem
+                      onClick={handleMute}
+                      disabled={muteUser.isPending}
+                    >
+                      {isMuted ? (
+                        <Volume2 className="w-4 h-4" />
+                      ) : (
+                        <VolumeX className="w-4 h-4" />
+                      )}
+                      {isMuted ? "Unmute" : "Mute"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={handleBlock}
+                      disabled={blockUser.isPending}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Block
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             )}
 
-            {/* Recent Posts */}
-            <section>
-              <h3 className="font-display font-semibold text-sm text-foreground mb-3 flex items-center gap-2">
-                <span>Posts</span>
-                <span className="text-xs font-normal text-muted-foreground">
-                  ({posts.length})
-                </span>
-              </h3>
-
-              {postsLoading ? (
-                <div className="space-y-2">
-                  {[1, 2].map((i) => (
-                    <Skeleton key={i} className="w-full h-16 rounded-xl" />
-                  ))}
+            {isLocked && (
+              <div className="flex flex-col items-center text-center py-8 rounded-2xl border border-border/60 bg-secondary/30">
+                <div className="w-12 h-12 rounded-full border-2 border-foreground/20 flex items-center justify-center mb-3">
+                  <Lock className="w-5 h-5 text-muted-foreground" />
                 </div>
-              ) : sortedPosts.length === 0 ? (
-                <p className="text-sm text-muted-foreground text-center py-4">
-                  No posts yet
+                <p className="font-semibold text-sm font-display text-foreground">
+                  This account is private
                 </p>
-              ) : (
-                <div className="space-y-2">
-                  {sortedPosts.slice(0, 5).map((post) => (
-                    <motion.div
-                      key={post.id.toString()}
-                      initial={{ opacity: 0, y: 6 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      className="p-3 bg-muted/40 rounded-xl border border-border/40"
-                    >
-                      {post.content && (
-                        <p className="text-sm text-foreground leading-snug line-clamp-3">
-                          {post.content}
+                <p className="text-xs text-muted-foreground mt-1 max-w-xs">
+                  Follow this account to see their posts, reels and followers.
+                </p>
+              </div>
+            )}
+
+            {/* Recent Posts */}
+            {!isLocked && (
+              <section>
+                <h3 className="font-display font-semibold text-sm text-foreground mb-3 flex items-center gap-2">
+                  <span>Posts</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    ({posts.length})
+                  </span>
+                </h3>
+
+                {postsLoading ? (
+                  <div className="space-y-2">
+                    {[1, 2].map((i) => (
+                      <Skeleton key={i} className="w-full h-16 rounded-xl" />
+                    ))}
+                  </div>
+                ) : sortedPosts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No posts yet
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {sortedPosts.slice(0, 5).map((post) => (
+                      <motion.div
+                        key={post.id.toString()}
+                        initial={{ opacity: 0, y: 6 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="p-3 bg-muted/40 rounded-xl border border-border/40"
+                      >
+                        {post.id === pinnedPostId && (
+                          <p className="flex items-center gap-1 mb-1 text-xs font-semibold text-muted-foreground">
+                            <Pin className="w-3 h-3" />
+                            Pinned
+                          </p>
+                        )}
+                        {post.repostOf !== undefined && (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                            <Repeat2 className="w-3.5 h-3.5" />
+                            Reposted a post
+                          </p>
+                        )}
+                        {post.content && (
+                          <p className="text-sm text-foreground leading-snug line-clamp-3">
+                            {post.content}
+                          </p>
+                        )}
+                        {post.media[0]?.kind === MediaKind.image && (
+                          <img
+                            src={post.media[0].blob.getDirectURL()}
+                            alt="Post"
+                            className="w-full rounded-lg mt-2 max-h-40 object-cover"
+                            loading="lazy"
+                          />
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1.5">
+                          {formatRelativeTime(post.timestamp)}
                         </p>
-                      )}
-                      {post.image && (
-                        <img
-                          src={post.image.getDirectURL()}
-                          alt="Post"
-                          className="w-full rounded-lg mt-2 max-h-40 object-cover"
-                          loading="lazy"
-                        />
-                      )}
-                      <p className="text-xs text-muted-foreground mt-1.5">
-                        {formatRelativeTime(post.timestamp)}
-                      </p>
-                    </motion.div>
-                  ))}
-                </div>
-              )}
-            </section>
+                      </motion.div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
 
             {/* Store Listings */}
             <section className="mt-5">
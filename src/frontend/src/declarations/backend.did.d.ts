@@ -10,13 +10,41 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export interface Bookmark {
+  'id' : bigint,
+  'collectionId' : [] | [bigint],
+  'savedAt' : Time,
+  'postId' : bigint,
+}
+export interface BookmarkCollection {
+  'id' : bigint,
+  'owner' : Principal,
+  'name' : string,
+  'createdAt' : Time,
+}
+export interface BookmarkCollectionSummary {
+  'collection' : BookmarkCollection,
+  'count' : bigint,
+}
 export interface Comment {
   'id' : bigint,
   'content' : string,
+  'parentCommentId' : [] | [bigint],
   'author' : Principal,
   'timestamp' : Time,
+  'mentions' : Array<Mention>,
   'postId' : bigint,
 }
+export interface CommentView {
+  'likeCount' : bigint,
+  'comment' : Comment,
+  'replyCount' : bigint,
+  'likedByCaller' : boolean,
+}
+export interface CommentsPage {
+  'comments' : Array<CommentView>,
+  'nextCursor' : [] | [bigint],
+}
 export interface DirectMessage {
   'id' : bigint,
   'content' : string,
@@ -26,6 +54,14 @@ export interface DirectMessage {
   'senderId' : Principal,
 }
 export type ExternalBlob = Uint8Array;
+export interface FriendSuggestion {
+  'username' : [] | [string],
+  'sharedFollows' : bigint,
+  'user' : Principal,
+  'isFollowing' : boolean,
+  'mutualFriends' : bigint,
+  'profile' : UserProfile,
+}
 export interface Group {
   'id' : bigint,
   'name' : string,
@@ -40,19 +76,82 @@ export interface GroupMessage {
   'timestamp' : Time,
   'senderId' : Principal,
 }
+export interface LoginResult {
+  'success' : boolean,
+  'lockedUntil' : [] | [Time],
+}
+export type MediaKind = { 'video' : null } |
+  { 'image' : null };
+export interface Mention { 'username' : string, 'user' : Principal }
 export interface Notification {
   'id' : bigint,
+  'listingId' : [] | [bigint],
+  'kind' : NotificationKind,
   'read' : boolean,
   'recipient' : Principal,
-  'message' : string,
+  'actorId' : Principal,
+  'groupId' : [] | [bigint],
   'timestamp' : Time,
+  'postId' : [] | [bigint],
+}
+export type NotificationKind = { 'repost' : null } |
+  { 'friendAccepted' : null } |
+  { 'groupInvite' : null } |
+  { 'referralReward' : null } |
+  { 'like' : null } |
+  { 'quote' : null } |
+  { 'listingInquiry' : null } |
+  { 'comment' : null } |
+  { 'general' : null } |
+  { 'mention' : null } |
+  { 'commentLike' : null } |
+  { 'friendRequest' : null } |
+  { 'reply' : null } |
+  { 'followRequest' : null } |
+  { 'reaction' : null } |
+  { 'follow' : null } |
+  { 'followAccepted' : null };
+export interface Poll {
+  'closesAt' : Time,
+  'multipleChoice' : boolean,
+  'options' : Array<string>,
+}
+export interface PollResults {
+  'closed' : boolean,
+  'callerVote' : [] | [Array<bigint>],
+  'counts' : Array<bigint>,
+  'voterCount' : bigint,
 }
 export interface Post {
   'id' : bigint,
+  'media' : Array<PostMedia>,
   'content' : string,
+  'poll' : [] | [Poll],
+  'quoteOf' : [] | [bigint],
   'author' : Principal,
   'timestamp' : Time,
-  'image' : [] | [ExternalBlob],
+  'mentions' : Array<Mention>,
+  'visibility' : PostVisibility,
+  'editedAt' : [] | [Time],
+  'repostOf' : [] | [bigint],
+}
+export interface PostMedia { 'blob' : ExternalBlob, 'kind' : MediaKind }
+export interface PostRevision {
+  'media' : Array<PostMedia>,
+  'content' : string,
+  'timestamp' : Time,
+}
+export type PostVisibility = { 'everyone' : null } |
+  { 'followers' : null } |
+  { 'friends' : null } |
+  { 'onlyMe' : null };
+export interface PostsPage {
+  'posts' : Array<Post>,
+  'nextCursor' : [] | [bigint],
+}
+export interface ReactorsPage {
+  'nextCursor' : [] | [Principal],
+  'reactors' : Array<UserSearchResult>,
 }
 export interface Reel {
   'id' : bigint,
@@ -67,6 +166,26 @@ export interface ReferralStats {
   'totalReferrals' : bigint,
   'verifiedReferrals' : bigint,
 }
+export interface Relationship {
+  'friendRequestSent' : boolean,
+  'isBlocked' : boolean,
+  'blocksYou' : boolean,
+  'isFollowing' : boolean,
+  'isMuted' : boolean,
+  'friendStatus' : [] | [string],
+  'mutualFriends' : Array<Principal>,
+  'followRequested' : boolean,
+  'followsYou' : boolean,
+}
+export interface ScheduledPost {
+  'id' : bigint,
+  'media' : Array<PostMedia>,
+  'content' : string,
+  'publishAt' : Time,
+  'poll' : [] | [Poll],
+  'author' : Principal,
+  'visibility' : PostVisibility,
+}
 export interface StoreListing {
   'id' : bigint,
   'title' : string,
@@ -82,12 +201,21 @@ export interface UserProfile {
   'displayName' : string,
   'coverPhoto' : [] | [ExternalBlob],
   'isProfessional' : boolean,
+  'isPrivate' : boolean,
   'professionalTitle' : [] | [string],
+  'pinnedPostId' : [] | [bigint],
   'avatar' : [] | [ExternalBlob],
 }
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export interface UserSearchResult {
+  'username' : [] | [string],
+  'user' : Principal,
+  'isFollowing' : boolean,
+  'friendStatus' : [] | [string],
+  'profile' : UserProfile,
+}
 export interface WebRTCAnswer {
   'sdp' : string,
   'callee' : Principal,
@@ -126,80 +254,156 @@ export interface _SERVICE {
   >,
   '_caffeineStorageUpdateGatewayPrincipals' : ActorMethod<[], undefined>,
   '_initializeAccessControlWithSecret' : ActorMethod<[string], undefined>,
-  'addComment' : ActorMethod<[bigint, string], undefined>,
+  'addComment' : ActorMethod<[bigint, string, [] | [bigint]], undefined>,
   'addEmojiReaction' : ActorMethod<[bigint, string], undefined>,
   'addGroupMember' : ActorMethod<[bigint, Principal], undefined>,
   'addICECandidate' : ActorMethod<[string, string], undefined>,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
+  'blockUser' : ActorMethod<[Principal], undefined>,
+  'bookmarkPost' : ActorMethod<[bigint, [] | [bigint]], undefined>,
+  'cancelFollowRequest' : ActorMethod<[Principal], undefined>,
+  'cancelFriendRequest' : ActorMethod<[Principal], undefined>,
+  'cancelScheduledPost' : ActorMethod<[bigint], undefined>,
+  'changePassword' : ActorMethod<[string, string], undefined>,
   'checkCallerHasLiked' : ActorMethod<[bigint], boolean>,
+  'checkCallerHasReposted' : ActorMethod<[bigint], boolean>,
+  'checkFollowRequested' : ActorMethod<[Principal], boolean>,
   'checkFriendRequestStatus' : ActorMethod<[Principal], [] | [string]>,
   'checkUsernameAvailable' : ActorMethod<[string], boolean>,
+  'createBookmarkCollection' : ActorMethod<[string], bigint>,
   'createGroup' : ActorMethod<[string], bigint>,
-  'createPost' : ActorMethod<[string, [] | [ExternalBlob]], undefined>,
+  'createPost' : ActorMethod<
+    [string, Array<PostMedia>, PostVisibility, [] | [Poll]],
+    undefined
+  >,
   'createReel' : ActorMethod<[string, ExternalBlob], bigint>,
   'createStoreListing' : ActorMethod<
     [string, string, string, [] | [ExternalBlob]],
     undefined
   >,
+  'deleteBookmarkCollection' : ActorMethod<[bigint], undefined>,
   'deleteComment' : ActorMethod<[bigint], undefined>,
   'deleteGroup' : ActorMethod<[bigint], undefined>,
   'deletePost' : ActorMethod<[bigint], undefined>,
   'deleteReel' : ActorMethod<[bigint], undefined>,
   'deleteStoreListing' : ActorMethod<[bigint], undefined>,
+  'dismissFriendSuggestion' : ActorMethod<[Principal], undefined>,
+  'editPost' : ActorMethod<[bigint, string, Array<PostMedia>], undefined>,
   'endCall' : ActorMethod<[string], undefined>,
   'followUser' : ActorMethod<[Principal], undefined>,
   'getAllPosts' : ActorMethod<[], Array<Post>>,
   'getAllReels' : ActorMethod<[], Array<Reel>>,
   'getAllStoreListings' : ActorMethod<[], Array<StoreListing>>,
   'getAllUsers' : ActorMethod<[], Array<Principal>>,
+  'getBlockedUsers' : ActorMethod<[], Array<Principal>>,
+  'getBookmark' : ActorMethod<[bigint], [] | [Bookmark]>,
+  'getBookmarkCollections' : ActorMethod<[], Array<BookmarkCollectionSummary>>,
+  'getBookmarks' : ActorMethod<[[] | [bigint], [] | [bigint]], PostsPage>,
   'getCallAnswer' : ActorMethod<[string], [] | [WebRTCAnswer]>,
   'getCallOffer' : ActorMethod<[string], [] | [WebRTCOffer]>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
+  'getCommentCount' : ActorMethod<[bigint], bigint>,
+  'getComments' : ActorMethod<
+    [bigint, [] | [bigint], [] | [bigint], bigint],
+    CommentsPage
+  >,
   'getCommentsByPost' : ActorMethod<[bigint], Array<Comment>>,
   'getConversation' : ActorMethod<[Principal], Array<DirectMessage>>,
   'getConversations' : ActorMethod<[], Array<Principal>>,
   'getEmojiReactions' : ActorMethod<[bigint], Array<[string, bigint]>>,
+  'getFollowRequests' : ActorMethod<
+    [],
+    Array<{ 'from' : Principal, 'timestamp' : Time }>
+  >,
   'getFollowers' : ActorMethod<[Principal], Array<Principal>>,
   'getFollowing' : ActorMethod<[Principal], Array<Principal>>,
+  'getFriendSuggestions' : ActorMethod<[bigint], Array<FriendSuggestion>>,
   'getFriends' : ActorMethod<[Principal], Array<Principal>>,
   'getGroupById' : ActorMethod<[bigint], [] | [Group]>,
   'getGroupMessages' : ActorMethod<[bigint], Array<GroupMessage>>,
+  'getHomeFeed' : ActorMethod<[[] | [bigint], bigint], PostsPage>,
   'getICECandidates' : ActorMethod<[string, Principal], Array<string>>,
   'getLikesCount' : ActorMethod<[bigint], bigint>,
+  'getMutedUsers' : ActorMethod<[], Array<Principal>>,
   'getMyBalance' : ActorMethod<[], bigint>,
   'getMyGroups' : ActorMethod<[], Array<Group>>,
   'getMyReferralCode' : ActorMethod<[], string>,
+  'getMyScheduledPosts' : ActorMethod<[], Array<ScheduledPost>>,
   'getMyUsername' : ActorMethod<[], [] | [string]>,
   'getNotifications' : ActorMethod<[], Array<Notification>>,
   'getPendingFriendRequests' : ActorMethod<
     [],
     Array<{ 'from' : Principal, 'timestamp' : Time }>
   >,
+  'getPollResults' : ActorMethod<[bigint], PollResults>,
+  'getPost' : ActorMethod<[bigint], [] | [Post]>,
+  'getPostReactors' : ActorMethod<
+    [bigint, [] | [string], [] | [Principal]],
+    ReactorsPage
+  >,
+  'getPostRevisions' : ActorMethod<[bigint], Array<PostRevision>>,
+  'getPostsByHashtag' : ActorMethod<[string, [] | [bigint]], PostsPage>,
   'getPostsByUser' : ActorMethod<[Principal], Array<Post>>,
+  'getPostsPage' : ActorMethod<[[] | [bigint], bigint], PostsPage>,
+  'getRecoveryCodesRemaining' : ActorMethod<[], bigint>,
   'getReelsByUser' : ActorMethod<[Principal], Array<Reel>>,
   'getReferralStats' : ActorMethod<[], ReferralStats>,
+  'getRelationship' : ActorMethod<[Principal], Relationship>,
+  'getRepostCount' : ActorMethod<[bigint], bigint>,
+  'getSentFriendRequests' : ActorMethod<
+    [],
+    Array<{ 'to' : Principal, 'timestamp' : Time }>
+  >,
   'getStoreListingsByUser' : ActorMethod<[Principal], Array<StoreListing>>,
   'getUnreadMessageCount' : ActorMethod<[], bigint>,
   'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
+  'likeOrUnlikeComment' : ActorMethod<[bigint], undefined>,
   'likeOrUnlikePost' : ActorMethod<[bigint], undefined>,
-  'loginWithCredentials' : ActorMethod<[string, string], boolean>,
+  'loginWithCredentials' : ActorMethod<[string, string], LoginResult>,
   'markAccountVerified' : ActorMethod<[], undefined>,
   'markConversationRead' : ActorMethod<[Principal], undefined>,
   'markNotificationAsRead' : ActorMethod<[bigint], undefined>,
+  'muteUser' : ActorMethod<[Principal], undefined>,
+  'pinPost' : ActorMethod<[bigint], undefined>,
+  'quotePost' : ActorMethod<[bigint, string], undefined>,
   'redeemReferralCode' : ActorMethod<[string], undefined>,
-  'registerWithCredentials' : ActorMethod<[string, string], undefined>,
+  'regenerateRecoveryCodes' : ActorMethod<[], Array<string>>,
+  'registerWithCredentials' : ActorMethod<[string, string], Array<string>>,
   'removeEmojiReaction' : ActorMethod<[bigint, string], undefined>,
+  'removeFriend' : ActorMethod<[Principal], undefined>,
   'removeGroupMember' : ActorMethod<[bigint, Principal], undefined>,
+  'renameBookmarkCollection' : ActorMethod<[bigint, string], undefined>,
+  'repost' : ActorMethod<[bigint], undefined>,
+  'reschedulePost' : ActorMethod<[bigint, Time], undefined>,
+  'resetPasswordWithRecoveryCode' : ActorMethod<
+    [string, string, string],
+    boolean
+  >,
+  'respondToFollowRequest' : ActorMethod<[Principal, boolean], undefined>,
   'respondToFriendRequest' : ActorMethod<[Principal, boolean], undefined>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
+  'schedulePost' : ActorMethod<
+    [string, Array<PostMedia>, PostVisibility, [] | [Poll], Time],
+    bigint
+  >,
+  'searchPosts' : ActorMethod<[string, [] | [bigint]], PostsPage>,
+  'searchUsernames' : ActorMethod<[string, bigint], Array<UserSearchResult>>,
+  'searchUsers' : ActorMethod<[string, bigint], Array<UserSearchResult>>,
   'sendFriendRequest' : ActorMethod<[Principal], undefined>,
   'sendGroupMessage' : ActorMethod<[bigint, string], bigint>,
+  'sendListingInquiry' : ActorMethod<[bigint, string], bigint>,
   'sendMessage' : ActorMethod<[Principal, string], bigint>,
   'storeCallAnswer' : ActorMethod<[string, string], undefined>,
   'storeCallOffer' : ActorMethod<[string, string, Principal], undefined>,
+  'unblockUser' : ActorMethod<[Principal], undefined>,
+  'unbookmarkPost' : ActorMethod<[bigint], undefined>,
+  'undoRepost' : ActorMethod<[bigint], undefined>,
   'unfollowUser' : ActorMethod<[Principal], undefined>,
+  'unmuteUser' : ActorMethod<[Principal], undefined>,
+  'unpinPost' : ActorMethod<[], undefined>,
+  'votePoll' : ActorMethod<[bigint, Array<bigint>], undefined>,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
@@ -25,13 +25,42 @@ export const UserRole = IDL.Variant({
   'guest' : IDL.Null,
 });
 export const ExternalBlob = IDL.Vec(IDL.Nat8);
+export const MediaKind = IDL.Variant({
+  'video' : IDL.Null,
+  'image' : IDL.Null,
+});
+export const PostMedia = IDL.Record({
+  'blob' : ExternalBlob,
+  'kind' : MediaKind,
+});
+export const PostVisibility = IDL.Variant({
+  'everyone' : IDL.Null,
+  'followers' : IDL.Null,
+  'friends' : IDL.Null,
+  'onlyMe' : IDL.Null,
+});
 export const Time = IDL.Int;
+export const Poll = IDL.Record({
+  'closesAt' : Time,
+  'multipleChoice' : IDL.Bool,
+  'options' : IDL.Vec(IDL.Text),
+});
+export const Mention = IDL.Record({
+  'username' : IDL.Text,
+  'user' : IDL.Principal,
+});
 export const Post = IDL.Record({
   'id' : IDL.Nat,
+  'media' : IDL.Vec(PostMedia),
   'content' : IDL.Text,
+  'poll' : IDL.Opt(Poll),
+  'quoteOf' : IDL.Opt(IDL.Nat),
   'author' : IDL.Principal,
   'timestamp' : Time,
-  'image' : IDL.Opt(ExternalBlob),
+  'mentions' : IDL.Vec(Mention),
+  'visibility' : PostVisibility,
+  'editedAt' : IDL.Opt(Time),
+  'repostOf' : IDL.Opt(IDL.Nat),
 });
 export const Reel = IDL.Record({
   'id' : IDL.Nat,
@@ -49,6 +78,26 @@ export const StoreListing = IDL.Record({
   'image' : IDL.Opt(ExternalBlob),
   'price' : IDL.Text,
 });
+export const Bookmark = IDL.Record({
+  'id' : IDL.Nat,
+  'collectionId' : IDL.Opt(IDL.Nat),
+  'savedAt' : Time,
+  'postId' : IDL.Nat,
+});
+export const BookmarkCollection = IDL.Record({
+  'id' : IDL.Nat,
+  'owner' : IDL.Principal,
+  'name' : IDL.Text,
+  'createdAt' : Time,
+});
+export const BookmarkCollectionSummary = IDL.Record({
+  'collection' : BookmarkCollection,
+  'count' : IDL.Nat,
+});
+export const PostsPage = IDL.Record({
+  'posts' : IDL.Vec(Post),
+  'nextCursor' : IDL.Opt(IDL.Nat),
+});
 export const WebRTCAnswer = IDL.Record({
   'sdp' : IDL.Text,
   'callee' : IDL.Principal,
@@ -64,16 +113,30 @@ export const UserProfile = IDL.Record({
   'displayName' : IDL.Text,
   'coverPhoto' : IDL.Opt(ExternalBlob),
   'isProfessional' : IDL.Bool,
+  'isPrivate' : IDL.Bool,
   'professionalTitle' : IDL.Opt(IDL.Text),
+  'pinnedPostId' : IDL.Opt(IDL.Nat),
   'avatar' : IDL.Opt(ExternalBlob),
 });
 export const Comment = IDL.Record({
   'id' : IDL.Nat,
   'content' : IDL.Text,
+  'parentCommentId' : IDL.Opt(IDL.Nat),
   'author' : IDL.Principal,
   'timestamp' : Time,
+  'mentions' : IDL.Vec(Mention),
   'postId' : IDL.Nat,
 });
+export const CommentView = IDL.Record({
+  'likeCount' : IDL.Nat,
+  'comment' : Comment,
+  'replyCount' : IDL.Nat,
+  'likedByCaller' : IDL.Bool,
+});
+export const CommentsPage = IDL.Record({
+  'comments' : IDL.Vec(CommentView),
+  'nextCursor' : IDL.Opt(IDL.Nat),
+});
 export const DirectMessage = IDL.Record({
   'id' : IDL.Nat,
   'content' : IDL.Text,
@@ -82,6 +145,14 @@ export const DirectMessage = IDL.Record({
   'recipientId' : IDL.Principal,
   'senderId' : IDL.Principal,
 });
+export const FriendSuggestion = IDL.Record({
+  'username' : IDL.Opt(IDL.Text),
+  'sharedFollows' : IDL.Nat,
+  'user' : IDL.Principal,
+  'isFollowing' : IDL.Bool,
+  'mutualFriends' : IDL.Nat,
+  'profile' : UserProfile,
+});
 export const Group = IDL.Record({
   'id' : IDL.Nat,
   'name' : IDL.Text,
@@ -96,11 +167,65 @@ export const GroupMessage = IDL.Record({
   'timestamp' : Time,
   'senderId' : IDL.Principal,
 });
+export const ScheduledPost = IDL.Record({
+  'id' : IDL.Nat,
+  'media' : IDL.Vec(PostMedia),
+  'content' : IDL.Text,
+  'publishAt' : Time,
+  'poll' : IDL.Opt(Poll),
+  'author' : IDL.Principal,
+  'visibility' : PostVisibility,
+});
+export const NotificationKind = IDL.Variant({
+  'repost' : IDL.Null,
+  'friendAccepted' : IDL.Null,
+  'groupInvite' : IDL.Null,
+  'referralReward' : IDL.Null,
+  'like' : IDL.Null,
+  'quote' : IDL.Null,
+  'listingInquiry' : IDL.Null,
+  'comment' : IDL.Null,
+  'general' : IDL.Null,
+  'mention' : IDL.Null,
+  'commentLike' : IDL.Null,
+  'friendRequest' : IDL.Null,
+  'reply' : IDL.Null,
+  'followRequest' : IDL.Null,
+  'reaction' : IDL.Null,
+  'follow' : IDL.Null,
+  'followAccepted' : IDL.Null,
+});
 export const Notification = IDL.Record({
   'id' : IDL.Nat,
+  'listingId' : IDL.Opt(IDL.Nat),
+  'kind' : NotificationKind,
   'read' : IDL.Bool,
   'recipient' : IDL.Principal,
-  'message' : IDL.Text,
+  'actorId' : IDL.Principal,
+  'groupId' : IDL.Opt(IDL.Nat),
+  'timestamp' : Time,
+  'postId' : IDL.Opt(IDL.Nat),
+});
+export const PollResults = IDL.Record({
+  'closed' : IDL.Bool,
+  'callerVote' : IDL.Opt(IDL.Vec(IDL.Nat)),
+  'counts' : IDL.Vec(IDL.Nat),
+  'voterCount' : IDL.Nat,
+});
+export const UserSearchResult = IDL.Record({
+  'username' : IDL.Opt(IDL.Text),
+  'user' : IDL.Principal,
+  'isFollowing' : IDL.Bool,
+  'friendStatus' : IDL.Opt(IDL.Text),
+  'profile' : UserProfile,
+});
+export const ReactorsPage = IDL.Record({
+  'nextCursor' : IDL.Opt(IDL.Principal),
+  'reactors' : IDL.Vec(UserSearchResult),
+});
+export const PostRevision = IDL.Record({
+  'media' : IDL.Vec(PostMedia),
+  'content' : IDL.Text,
   'timestamp' : Time,
 });
 export const ReferralStats = IDL.Record({
@@ -109,6 +234,21 @@ export const ReferralStats = IDL.Record({
   'totalReferrals' : IDL.Nat,
   'verifiedReferrals' : IDL.Nat,
 });
+export const Relationship = IDL.Record({
+  'friendRequestSent' : IDL.Bool,
+  'isBlocked' : IDL.Bool,
+  'blocksYou' : IDL.Bool,
+  'isFollowing' : IDL.Bool,
+  'isMuted' : IDL.Bool,
+  'friendStatus' : IDL.Opt(IDL.Text),
+  'mutualFriends' : IDL.Vec(IDL.Principal),
+  'followRequested' : IDL.Bool,
+  'followsYou' : IDL.Bool,
+});
+export const LoginResult = IDL.Record({
+  'success' : IDL.Bool,
+  'lockedUntil' : IDL.Opt(Time),
+});
 
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -138,41 +278,75 @@ export const idlService = IDL.Service({
     ),
   '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
   '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
-  'addComment' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'addComment' : IDL.Func([IDL.Nat, IDL.Text, IDL.Opt(IDL.Nat)], [], []),
   'addEmojiReaction' : IDL.Func([IDL.Nat, IDL.Text], [], []),
   'addGroupMember' : IDL.Func([IDL.Nat, IDL.Principal], [], []),
   'addICECandidate' : IDL.Func([IDL.Text, IDL.Text], [], []),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+  'blockUser' : IDL.Func([IDL.Principal], [], []),
+  'bookmarkPost' : IDL.Func([IDL.Nat, IDL.Opt(IDL.Nat)], [], []),
+  'cancelFollowRequest' : IDL.Func([IDL.Principal], [], []),
+  'cancelFriendRequest' : IDL.Func([IDL.Principal], [], []),
+  'cancelScheduledPost' : IDL.Func([IDL.Nat], [], []),
+  'changePassword' : IDL.Func([IDL.Text, IDL.Text], [], []),
   'checkCallerHasLiked' : IDL.Func([IDL.Nat], [IDL.Bool], ['query']),
+  'checkCallerHasReposted' : IDL.Func([IDL.Nat], [IDL.Bool], ['query']),
+  'checkFollowRequested' : IDL.Func([IDL.Principal], [IDL.Bool], ['query']),
   'checkFriendRequestStatus' : IDL.Func(
       [IDL.Principal],
       [IDL.Opt(IDL.Text)],
       ['query'],
     ),
   'checkUsernameAvailable' : IDL.Func([IDL.Text], [IDL.Bool], ['query']),
+  'createBookmarkCollection' : IDL.Func([IDL.Text], [IDL.Nat], []),
   'createGroup' : IDL.Func([IDL.Text], [IDL.Nat], []),
-  'createPost' : IDL.Func([IDL.Text, IDL.Opt(ExternalBlob)], [], []),
+  'createPost' : IDL.Func(
+      [IDL.Text, IDL.Vec(PostMedia), PostVisibility, IDL.Opt(Poll)],
+      [],
+      [],
+    ),
   'createReel' : IDL.Func([IDL.Text, ExternalBlob], [IDL.Nat], []),
   'createStoreListing' : IDL.Func(
       [IDL.Text, IDL.Text, IDL.Text, IDL.Opt(ExternalBlob)],
       [],
       [],
     ),
+  'deleteBookmarkCollection' : IDL.Func([IDL.Nat], [], []),
   'deleteComment' : IDL.Func([IDL.Nat], [], []),
   'deleteGroup' : IDL.Func([IDL.Nat], [], []),
   'deletePost' : IDL.Func([IDL.Nat], [], []),
   'deleteReel' : IDL.Func([IDL.Nat], [], []),
   'deleteStoreListing' : IDL.Func([IDL.Nat], [], []),
+  'dismissFriendSuggestion' : IDL.Func([IDL.Principal], [], []),
+  'editPost' : IDL.Func([IDL.Nat, IDL.Text, IDL.Vec(PostMedia)], [], []),
   'endCall' : IDL.Func([IDL.Text], [], []),
   'followUser' : IDL.Func([IDL.Principal], [], []),
   'getAllPosts' : IDL.Func([], [IDL.Vec(Post)], ['query']),
   'getAllReels' : IDL.Func([], [IDL.Vec(Reel)], ['query']),
   'getAllStoreListings' : IDL.Func([], [IDL.Vec(StoreListing)], ['query']),
   'getAllUsers' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
+  'getBlockedUsers' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
+  'getBookmark' : IDL.Func([IDL.Nat], [IDL.Opt(Bookmark)], ['query']),
+  'getBookmarkCollections' : IDL.Func(
+      [],
+      [IDL.Vec(BookmarkCollectionSummary)],
+      ['query'],
+    ),
+  'getBookmarks' : IDL.Func(
+      [IDL.Opt(IDL.Nat), IDL.Opt(IDL.Nat)],
+      [PostsPage],
+      ['query'],
+    ),
   'getCallAnswer' : IDL.Func([IDL.Text], [IDL.Opt(WebRTCAnswer)], ['query']),
   'getCallOffer' : IDL.Func([IDL.Text], [IDL.Opt(WebRTCOffer)], ['query']),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
+  'getCommentCount' : IDL.Func([IDL.Nat], [IDL.Nat], ['query']),
+  'getComments' : IDL.Func(
+      [IDL.Nat, IDL.Opt(IDL.Nat), IDL.Opt(IDL.Nat), IDL.Nat],
+      [CommentsPage],
+      ['query'],
+    ),
   'getCommentsByPost' : IDL.Func([IDL.Nat], [IDL.Vec(Comment)], ['query']),
   'getConversation' : IDL.Func(
       [IDL.Principal],
@@ -185,6 +359,11 @@ export const idlService = IDL.Service({
       [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat))],
       ['query'],
     ),
+  'getFollowRequests' : IDL.Func(
+      [],
+      [IDL.Vec(IDL.Record({ 'from' : IDL.Principal, 'timestamp' : Time }))],
+      ['query'],
+    ),
   'getFollowers' : IDL.Func(
       [IDL.Principal],
       [IDL.Vec(IDL.Principal)],
@@ -195,18 +374,26 @@ export const idlService = IDL.Service({
       [IDL.Vec(IDL.Principal)],
       ['query'],
     ),
+  'getFriendSuggestions' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Vec(FriendSuggestion)],
+      ['query'],
+    ),
   'getFriends' : IDL.Func([IDL.Principal], [IDL.Vec(IDL.Principal)], ['query']),
   'getGroupById' : IDL.Func([IDL.Nat], [IDL.Opt(Group)], ['query']),
   'getGroupMessages' : IDL.Func([IDL.Nat], [IDL.Vec(GroupMessage)], ['query']),
+  'getHomeFeed' : IDL.Func([IDL.Opt(IDL.Nat), IDL.Nat], [PostsPage], ['query']),
   'getICECandidates' : IDL.Func(
       [IDL.Text, IDL.Principal],
       [IDL.Vec(IDL.Text)],
       ['query'],
     ),
   'getLikesCount' : IDL.Func([IDL.Nat], [IDL.Nat], ['query']),
+  'getMutedUsers' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
   'getMyBalance' : IDL.Func([], [IDL.Nat], ['query']),
   'getMyGroups' : IDL.Func([], [IDL.Vec(Group)], ['query']),
   'getMyReferralCode' : IDL.Func([], [IDL.Text], []),
+  'getMyScheduledPosts' : IDL.Func([], [IDL.Vec(ScheduledPost)], ['query']),
   'getMyUsername' : IDL.Func([], [IDL.Opt(IDL.Text)], ['query']),
   'getNotifications' : IDL.Func([], [IDL.Vec(Notification)], ['query']),
   'getPendingFriendRequests' : IDL.Func(
@@ -214,9 +401,35 @@ export const idlService = IDL.Service({
       [IDL.Vec(IDL.Record({ 'from' : IDL.Principal, 'timestamp' : Time }))],
       ['query'],
     ),
+  'getPollResults' : IDL.Func([IDL.Nat], [PollResults], ['query']),
+  'getPost' : IDL.Func([IDL.Nat], [IDL.Opt(Post)], ['query']),
+  'getPostReactors' : IDL.Func(
+      [IDL.Nat, IDL.Opt(IDL.Text), IDL.Opt(IDL.Principal)],
+      [ReactorsPage],
+      ['query'],
+    ),
+  'getPostRevisions' : IDL.Func([IDL.Nat], [IDL.Vec(PostRevision)], ['query']),
+  'getPostsByHashtag' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Nat)],
+      [PostsPage],
+      ['query'],
+    ),
   'getPostsByUser' : IDL.Func([IDL.Principal], [IDL.Vec(Post)], ['query']),
+  'getPostsPage' : IDL.Func(
+      [IDL.Opt(IDL.Nat), IDL.Nat],
+      [PostsPage],
+      ['query'],
+    ),
+  'getRecoveryCodesRemaining' : IDL.Func([], [IDL.Nat], ['query']),
   'getReelsByUser' : IDL.Func([IDL.Principal], [IDL.Vec(Reel)], ['query']),
   'getReferralStats' : IDL.Func([], [ReferralStats], ['query']),
+  'getRelationship' : IDL.Func([IDL.Principal], [Relationship], ['query']),
+  'getRepostCount' : IDL.Func([IDL.Nat], [IDL.Nat], ['query']),
+  'getSentFriendRequests' : IDL.Func(
+      [],
+      [IDL.Vec(IDL.Record({ 'to' : IDL.Principal, 'timestamp' : Time }))],
+      ['query'],
+    ),
   'getStoreListingsByUser' : IDL.Func(
       [IDL.Principal],
       [IDL.Vec(StoreListing)],
@@ -229,27 +442,69 @@ export const idlService = IDL.Service({
       ['query'],
     ),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+  'likeOrUnlikeComment' : IDL.Func([IDL.Nat], [], []),
   'likeOrUnlikePost' : IDL.Func([IDL.Nat], [], []),
-  'loginWithCredentials' : IDL.Func(
-      [IDL.Text, IDL.Text],
-      [IDL.Bool],
-      ['query'],
-    ),
+  'loginWithCredentials' : IDL.Func([IDL.Text, IDL.Text], [LoginResult], []),
   'markAccountVerified' : IDL.Func([], [], []),
   'markConversationRead' : IDL.Func([IDL.Principal], [], []),
   'markNotificationAsRead' : IDL.Func([IDL.Nat], [], []),
+  'muteUser' : IDL.Func([IDL.Principal], [], []),
+  'pinPost' : IDL.Func([IDL.Nat], [], []),
+  'quotePost' : IDL.Func([IDL.Nat, IDL.Text], [], []),
   'redeemReferralCode' : IDL.Func([IDL.Text], [], []),
-  'registerWithCredentials' : IDL.Func([IDL.Text, IDL.Text], [], []),
+  'regenerateRecoveryCodes' : IDL.Func([], [IDL.Vec(IDL.Text)], []),
+  'registerWithCredentials' : IDL.Func(
+      [IDL.Text, IDL.Text],
+      [IDL.Vec(IDL.Text)],
+      [],
+    ),
   'removeEmojiReaction' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'removeFriend' : IDL.Func([IDL.Principal], [], []),
   'removeGroupMember' : IDL.Func([IDL.Nat, IDL.Principal], [], []),
+  'renameBookmarkCollection' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+  'repost' : IDL.Func([IDL.Nat], [], []),
+  'reschedulePost' : IDL.Func([IDL.Nat, Time], [], []),
+  'resetPasswordWithRecoveryCode' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Text],
+      [IDL.Bool],
+      [],
+    ),
+  'respondToFollowRequest' : IDL.Func([IDL.Principal, IDL.Bool], [], []),
   'respondToFriendRequest' : IDL.Func([IDL.Principal, IDL.Bool], [], []),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+  'schedulePost' : IDL.Func(
+      [IDL.Text, IDL.Vec(PostMedia), PostVisibility, IDL.Opt(Poll), Time],
+      [IDL.Nat],
+      [],
+    ),
+  'searchPosts' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Nat)],
+      [PostsPage],
+      ['query'],
+    ),
+  'searchUsernames' : IDL.Func(
+      [IDL.Text, IDL.Nat],
+      [IDL.Vec(UserSearchResult)],
+      ['query'],
+    ),
+  'searchUsers' : IDL.Func(
+      [IDL.Text, IDL.Nat],
+      [IDL.Vec(UserSearchResult)],
+      ['query'],
+    ),
   'sendFriendRequest' : IDL.Func([IDL.Principal], [], []),
   'sendGroupMessage' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
+  'sendListingInquiry' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
   'sendMessage' : IDL.Func([IDL.Principal, IDL.Text], [IDL.Nat], []),
   'storeCallAnswer' : IDL.Func([IDL.Text, IDL.Text], [], []),
   'storeCallOffer' : IDL.Func([IDL.Text, IDL.Text, IDL.Principal], [], []),
+  'unblockUser' : IDL.Func([IDL.Principal], [], []),
+  'unbookmarkPost' : IDL.Func([IDL.Nat], [], []),
+  'undoRepost' : IDL.Func([IDL.Nat], [], []),
   'unfollowUser' : IDL.Func([IDL.Principal], [], []),
+  'unmuteUser' : IDL.Func([IDL.Principal], [], []),
+  'unpinPost' : IDL.Func([], [], []),
+  'votePoll' : IDL.Func([IDL.Nat, IDL.Vec(IDL.Nat)], [], []),
 });
 
 export const idlInitArgs = [];
@@ -272,13 +527,33 @@ export const idlFactory = ({ IDL }) => {
     'guest' : IDL.Null,
   });
   const ExternalBlob = IDL.Vec(IDL.Nat8);
+  const MediaKind = IDL.Variant({ 'video' : IDL.Null, 'image' : IDL.Null });
+  const PostMedia = IDL.Record({ 'blob' : ExternalBlob, 'kind' : MediaKind });
+  const PostVisibility = IDL.Variant({
+    'everyone' : IDL.Null,
+    'followers' : IDL.Null,
+    'friends' : IDL.Null,
+    'onlyMe' : IDL.Null,
+  });
   const Time = IDL.Int;
+  const Poll = IDL.Record({
+    'closesAt' : Time,
+    'multipleChoice' : IDL.Bool,
+    'options' : IDL.Vec(IDL.Text),
+  });
+  const Mention = IDL.Record({ 'username' : IDL.Text, 'user' : IDL.Principal });
   const Post = IDL.Record({
     'id' : IDL.Nat,
+    'media' : IDL.Vec(PostMedia),
     'content' : IDL.Text,
+    'poll' : IDL.Opt(Poll),
+    'quoteOf' : IDL.Opt(IDL.Nat),
     'author' : IDL.Principal,
     'timestamp' : Time,
-    'image' : IDL.Opt(ExternalBlob),
+    'mentions' : IDL.Vec(Mention),
+    'visibility' : PostVisibility,
+    'editedAt' : IDL.Opt(Time),
+    'repostOf' : IDL.Opt(IDL.Nat),
   });
   const Reel = IDL.Record({
     'id' : IDL.Nat,
@@ -296,6 +571,26 @@ export const idlFactory = ({ IDL }) => {
     'image' : IDL.Opt(ExternalBlob),
     'price' : IDL.Text,
   });
+  const Bookmark = IDL.Record({
+    'id' : IDL.Nat,
+    'collectionId' : IDL.Opt(IDL.Nat),
+    'savedAt' : Time,
+    'postId' : IDL.Nat,
+  });
+  const BookmarkCollection = IDL.Record({
+    'id' : IDL.Nat,
+    'owner' : IDL.Principal,
+    'name' : IDL.Text,
+    'createdAt' : Time,
+  });
+  const BookmarkCollectionSummary = IDL.Record({
+    'collection' : BookmarkCollection,
+    'count' : IDL.Nat,
+  });
+  const PostsPage = IDL.Record({
+    'posts' : IDL.Vec(Post),
+    'nextCursor' : IDL.Opt(IDL.Nat),
+  });
   const WebRTCAnswer = IDL.Record({
     'sdp' : IDL.Text,
     'callee' : IDL.Principal,
@@ -311,16 +606,30 @@ export const idlFactory = ({ IDL }) => {
     'displayName' : IDL.Text,
     'coverPhoto' : IDL.Opt(ExternalBlob),
     'isProfessional' : IDL.Bool,
+    'isPrivate' : IDL.Bool,
     'professionalTitle' : IDL.Opt(IDL.Text),
+    'pinnedPostId' : IDL.Opt(IDL.Nat),
     'avatar' : IDL.Opt(ExternalBlob),
   });
   const Comment = IDL.Record({
     'id' : IDL.Nat,
     'content' : IDL.Text,
+    'parentCommentId' : IDL.Opt(IDL.Nat),
     'author' : IDL.Principal,
     'timestamp' : Time,
+    'mentions' : IDL.Vec(Mention),
     'postId' : IDL.Nat,
   });
+  const CommentView = IDL.Record({
+    'likeCount' : IDL.Nat,
+    'comment' : Comment,
+    'replyCount' : IDL.Nat,
+    'likedByCaller' : IDL.Bool,
+  });
+  const CommentsPage = IDL.Record({
+    'comments' : IDL.Vec(CommentView),
+    'nextCursor' : IDL.Opt(IDL.Nat),
+  });
   const DirectMessage = IDL.Record({
     'id' : IDL.Nat,
     'content' : IDL.Text,
@@ -329,6 +638,14 @@ export const idlFactory = ({ IDL }) => {
     'recipientId' : IDL.Principal,
     'senderId' : IDL.Principal,
   });
+  const FriendSuggestion = IDL.Record({
+    'username' : IDL.Opt(IDL.Text),
+    'sharedFollows' : IDL.Nat,
+    'user' : IDL.Principal,
+    'isFollowing' : IDL.Bool,
+    'mutualFriends' : IDL.Nat,
+    'profile' : UserProfile,
+  });
   const Group = IDL.Record({
     'id' : IDL.Nat,
     'name' : IDL.Text,
@@ -343,11 +660,65 @@ export const idlFactory = ({ IDL }) => {
     'timestamp' : Time,
     'senderId' : IDL.Principal,
   });
+  const ScheduledPost = IDL.Record({
+    'id' : IDL.Nat,
+    'media' : IDL.Vec(PostMedia),
+    'content' : IDL.Text,
+    'publishAt' : Time,
+    'poll' : IDL.Opt(Poll),
+    'author' : IDL.Principal,
+    'visibility' : PostVisibility,
+  });
+  const NotificationKind = IDL.Variant({
+    'repost' : IDL.Null,
+    'friendAccepted' : IDL.Null,
+    'groupInvite' : IDL.Null,
+    'referralReward' : IDL.Null,
+    'like' : IDL.Null,
+    'quote' : IDL.Null,
+    'listingInquiry' : IDL.Null,
+    'comment' : IDL.Null,
+    'general' : IDL.Null,
+    'mention' : IDL.Null,
+    'commentLike' : IDL.Null,
+    'friendRequest' : IDL.Null,
+    'reply' : IDL.Null,
+    'followRequest' : IDL.Null,
+    'reaction' : IDL.Null,
+    'follow' : IDL.Null,
+    'followAccepted' : IDL.Null,
+  });
   const Notification = IDL.Record({
     'id' : IDL.Nat,
+    'listingId' : IDL.Opt(IDL.Nat),
+    'kind' : NotificationKind,
     'read' : IDL.Bool,
     'recipient' : IDL.Principal,
-    'message' : IDL.Text,
+    'actorId' : IDL.Principal,
+    'groupId' : IDL.Opt(IDL.Nat),
+    'timestamp' : Time,
+    'postId' : IDL.Opt(IDL.Nat),
+  });
+  const PollResults = IDL.Record({
+    'closed' : IDL.Bool,
+    'callerVote' : IDL.Opt(IDL.Vec(IDL.Nat)),
+    'counts' : IDL.Vec(IDL.Nat),
+    'voterCount' : IDL.Nat,
+  });
+  const UserSearchResult = IDL.Record({
+    'username' : IDL.Opt(IDL.Text),
+    'user' : IDL.Principal,
+    'isFollowing' : IDL.Bool,
+    'friendStatus' : IDL.Opt(IDL.Text),
+    'profile' : UserProfile,
+  });
+  const ReactorsPage = IDL.Record({
+    'nextCursor' : IDL.Opt(IDL.Principal),
+    'reactors' : IDL.Vec(UserSearchResult),
+  });
+  const PostRevision = IDL.Record({
+    'media' : IDL.Vec(PostMedia),
+    'content' : IDL.Text,
     'timestamp' : Time,
   });
   const ReferralStats = IDL.Record({
@@ -356,6 +727,21 @@ export const idlFactory = ({ IDL }) => {
     'totalReferrals' : IDL.Nat,
     'verifiedReferrals' : IDL.Nat,
   });
+  const Relationship = IDL.Record({
+    'friendRequestSent' : IDL.Bool,
+    'isBlocked' : IDL.Bool,
+    'blocksYou' : IDL.Bool,
+    'isFollowing' : IDL.Bool,
+    'isMuted' : IDL.Bool,
+    'friendStatus' : IDL.Opt(IDL.Text),
+    'mutualFriends' : IDL.Vec(IDL.Principal),
+    'followRequested' : IDL.Bool,
+    'followsYou' : IDL.Bool,
+  });
+  const LoginResult = IDL.Record({
+    'success' : IDL.Bool,
+    'lockedUntil' : IDL.Opt(Time),
+  });
   
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -385,41 +771,75 @@ export const idlFactory = ({ IDL }) => {
       ),
     '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
     '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
-    'addComment' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'addComment' : IDL.Func([IDL.Nat, IDL.Text, IDL.Opt(IDL.Nat)], [], []),
     'addEmojiReaction' : IDL.Func([IDL.Nat, IDL.Text], [], []),
     'addGroupMember' : IDL.Func([IDL.Nat, IDL.Principal], [], []),
     'addICECandidate' : IDL.Func([IDL.Text, IDL.Text], [], []),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+    'blockUser' : IDL.Func([IDL.Principal], [], []),
+    'bookmarkPost' : IDL.Func([IDL.Nat, IDL.Opt(IDL.Nat)], [], []),
+    'cancelFollowRequest' : IDL.Func([IDL.Principal], [], []),
+    'cancelFriendRequest' : IDL.Func([IDL.Principal], [], []),
+    'cancelScheduledPost' : IDL.Func([IDL.Nat], [], []),
+    'changePassword' : IDL.Func([IDL.Text, IDL.Text], [], []),
     'checkCallerHasLiked' : IDL.Func([IDL.Nat], [IDL.Bool], ['query']),
+    'checkCallerHasReposted' : IDL.Func([IDL.Nat], [IDL.Bool], ['query']),
+    'checkFollowRequested' : IDL.Func([IDL.Principal], [IDL.Bool], ['query']),
     'checkFriendRequestStatus' : IDL.Func(
         [IDL.Principal],
         [IDL.Opt(IDL.Text)],
         ['query'],
       ),
     'checkUsernameAvailable' : IDL.Func([IDL.Text], [IDL.Bool], ['query']),
+    'createBookmarkCollection' : IDL.Func([IDL.Text], [IDL.Nat], []),
     'createGroup' : IDL.Func([IDL.Text], [IDL.Nat], []),
-    'createPost' : IDL.Func([IDL.Text, IDL.Opt(ExternalBlob)], [], []),
+    'createPost' : IDL.Func(
+        [IDL.Text, IDL.Vec(PostMedia), PostVisibility, IDL.Opt(Poll)],
+        [],
+        [],
+      ),
     'createReel' : IDL.Func([IDL.Text, ExternalBlob], [IDL.Nat], []),
     'createStoreListing' : IDL.Func(
         [IDL.Text, IDL.Text, IDL.Text, IDL.Opt(ExternalBlob)],
         [],
         [],
       ),
+    'deleteBookmarkCollection' : IDL.Func([IDL.Nat], [], []),
     'deleteComment' : IDL.Func([IDL.Nat], [], []),
     'deleteGroup' : IDL.Func([IDL.Nat], [], []),
     'deletePost' : IDL.Func([IDL.Nat], [], []),
     'deleteReel' : IDL.Func([IDL.Nat], [], []),
     'deleteStoreListing' : IDL.Func([IDL.Nat], [], []),
+    'dismissFriendSuggestion' : IDL.Func([IDL.Principal], [], []),
+    'editPost' : IDL.Func([IDL.Nat, IDL.Text, IDL.Vec(PostMedia)], [], []),
     'endCall' : IDL.Func([IDL.Text], [], []),
     'followUser' : IDL.Func([IDL.Principal], [], []),
     'getAllPosts' : IDL.Func([], [IDL.Vec(Post)], ['query']),
     'getAllReels' : IDL.Func([], [IDL.Vec(Reel)], ['query']),
     'getAllStoreListings' : IDL.Func([], [IDL.Vec(StoreListing)], ['query']),
     'getAllUsers' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
+    'getBlockedUsers' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
+    'getBookmark' : IDL.Func([IDL.Nat], [IDL.Opt(Bookmark)], ['query']),
+    'getBookmarkCollections' : IDL.Func(
+        [],
+        [IDL.Vec(BookmarkCollectionSummary)],
+        ['query'],
+      ),
+    'getBookmarks' : IDL.Func(
+        [IDL.Opt(IDL.Nat), IDL.Opt(IDL.Nat)],
+        [PostsPage],
+        ['query'],
+      ),
     'getCallAnswer' : IDL.Func([IDL.Text], [IDL.Opt(WebRTCAnswer)], ['query']),
     'getCallOffer' : IDL.Func([IDL.Text], [IDL.Opt(WebRTCOffer)], ['query']),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
+    'getCommentCount' : IDL.Func([IDL.Nat], [IDL.Nat], ['query']),
+    'getComments' : IDL.Func(
+        [IDL.Nat, IDL.Opt(IDL.Nat), IDL.Opt(IDL.Nat), IDL.Nat],
+        [CommentsPage],
+        ['query'],
+      ),
     'getCommentsByPost' : IDL.Func([IDL.Nat], [IDL.Vec(Comment)], ['query']),
     'getConversation' : IDL.Func(
         [IDL.Principal],
@@ -432,6 +852,11 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat))],
         ['query'],
       ),
+    'getFollowRequests' : IDL.Func(
+        [],
+        [IDL.Vec(IDL.Record({ 'from' : IDL.Principal, 'timestamp' : Time }))],
+        ['query'],
+      ),
     'getFollowers' : IDL.Func(
         [IDL.Principal],
         [IDL.Vec(IDL.Principal)],
@@ -442,6 +867,11 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Vec(IDL.Principal)],
         ['query'],
       ),
+    'getFriendSuggestions' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(FriendSuggestion)],
+        ['query'],
+      ),
     'getFriends' : IDL.Func(
         [IDL.Principal],
         [IDL.Vec(IDL.Principal)],
@@ -453,15 +883,22 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Vec(GroupMessage)],
         ['query'],
       ),
+    'getHomeFeed' : IDL.Func(
+        [IDL.Opt(IDL.Nat), IDL.Nat],
+        [PostsPage],
+        ['query'],
+      ),
     'getICECandidates' : IDL.Func(
         [IDL.Text, IDL.Principal],
         [IDL.Vec(IDL.Text)],
         ['query'],
       ),
     'getLikesCount' : IDL.Func([IDL.Nat], [IDL.Nat], ['query']),
+    'getMutedUsers' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
     'getMyBalance' : IDL.Func([], [IDL.Nat], ['query']),
     'getMyGroups' : IDL.Func([], [IDL.Vec(Group)], ['query']),
     'getMyReferralCode' : IDL.Func([], [IDL.Text], []),
+    'getMyScheduledPosts' : IDL.Func([], [IDL.Vec(ScheduledPost)], ['query']),
     'getMyUsername' : IDL.Func([], [IDL.Opt(IDL.Text)], ['query']),
     'getNotifications' : IDL.Func([], [IDL.Vec(Notification)], ['query']),
     'getPendingFriendRequests' : IDL.Func(
@@ -469,9 +906,39 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Vec(IDL.Record({ 'from' : IDL.Principal, 'timestamp' : Time }))],
         ['query'],
       ),
+    'getPollResults' : IDL.Func([IDL.Nat], [PollResults], ['query']),
+    'getPost' : IDL.Func([IDL.Nat], [IDL.Opt(Post)], ['query']),
+    'getPostReactors' : IDL.Func(
+        [IDL.Nat, IDL.Opt(IDL.Text), IDL.Opt(IDL.Principal)],
+        [ReactorsPage],
+        ['query'],
+      ),
+    'getPostRevisions' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Vec(PostRevision)],
+        ['query'],
+      ),
+    'getPostsByHashtag' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Nat)],
+        [PostsPage],
+        ['query'],
+      ),
     'getPostsByUser' : IDL.Func([IDL.Principal], [IDL.Vec(Post)], ['query']),
+    'getPostsPage' : IDL.Func(
+        [IDL.Opt(IDL.Nat), IDL.Nat],
+        [PostsPage],
+        ['query'],
+      ),
+    'getRecoveryCodesRemaining' : IDL.Func([], [IDL.Nat], ['query']),
     'getReelsByUser' : IDL.Func([IDL.Principal], [IDL.Vec(Reel)], ['query']),
     'getReferralStats' : IDL.Func([], [ReferralStats], ['query']),
+    'getRelationship' : IDL.Func([IDL.Principal], [Relationship], ['query']),
+    'getRepostCount' : IDL.Func([IDL.Nat], [IDL.Nat], ['query']),
+    'getSentFriendRequests' : IDL.Func(
+        [],
+        [IDL.Vec(IDL.Record({ 'to' : IDL.Principal, 'timestamp' : Time }))],
+        ['query'],
+      ),
     'getStoreListingsByUser' : IDL.Func(
         [IDL.Principal],
         [IDL.Vec(StoreListing)],
@@ -484,27 +951,69 @@ export const idlFactory = ({ IDL }) => {
         ['query'],
       ),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+    'likeOrUnlikeComment' : IDL.Func([IDL.Nat], [], []),
     'likeOrUnlikePost' : IDL.Func([IDL.Nat], [], []),
-    'loginWithCredentials' : IDL.Func(
-        [IDL.Text, IDL.Text],
-        [IDL.Bool],
-        ['query'],
-      ),
+    'loginWithCredentials' : IDL.Func([IDL.Text, IDL.Text], [LoginResult], []),
     'markAccountVerified' : IDL.Func([], [], []),
     'markConversationRead' : IDL.Func([IDL.Principal], [], []),
     'markNotificationAsRead' : IDL.Func([IDL.Nat], [], []),
+    'muteUser' : IDL.Func([IDL.Principal], [], []),
+    'pinPost' : IDL.Func([IDL.Nat], [], []),
+    'quotePost' : IDL.Func([IDL.Nat, IDL.Text], [], []),
     'redeemReferralCode' : IDL.Func([IDL.Text], [], []),
-    'registerWithCredentials' : IDL.Func([IDL.Text, IDL.Text], [], []),
+    'regenerateRecoveryCodes' : IDL.Func([], [IDL.Vec(IDL.Text)], []),
+    'registerWithCredentials' : IDL.Func(
+        [IDL.Text, IDL.Text],
+        [IDL.Vec(IDL.Text)],
+        [],
+      ),
     'removeEmojiReaction' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'removeFriend' : IDL.Func([IDL.Principal], [], []),
     'removeGroupMember' : IDL.Func([IDL.Nat, IDL.Principal], [], []),
+    'renameBookmarkCollection' : IDL.Func([IDL.Nat, IDL.Text], [], []),
+    'repost' : IDL.Func([IDL.Nat], [], []),
+    'reschedulePost' : IDL.Func([IDL.Nat, Time], [], []),
+    'resetPasswordWithRecoveryCode' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Text],
+        [IDL.Bool],
+        [],
+      ),
+    'respondToFollowRequest' : IDL.Func([IDL.Principal, IDL.Bool], [], []),
     'respondToFriendRequest' : IDL.Func([IDL.Principal, IDL.Bool], [], []),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+    'schedulePost' : IDL.Func(
+        [IDL.Text, IDL.Vec(PostMedia), PostVisibility, IDL.Opt(Poll), Time],
+        [IDL.Nat],
+        [],
+      ),
+    'searchPosts' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Nat)],
+        [PostsPage],
+        ['query'],
+      ),
+    'searchUsernames' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [IDL.Vec(UserSearchResult)],
+        ['query'],
+      ),
+    'searchUsers' : IDL.Func(
+        [IDL.Text, IDL.Nat],
+        [IDL.Vec(UserSearchResult)],
+        ['query'],
+      ),
     'sendFriendRequest' : IDL.Func([IDL.Principal], [], []),
     'sendGroupMessage' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
+    'sendListingInquiry' : IDL.Func([IDL.Nat, IDL.Text], [IDL.Nat], []),
     'sendMessage' : IDL.Func([IDL.Principal, IDL.Text], [IDL.Nat], []),
     'storeCallAnswer' : IDL.Func([IDL.Text, IDL.Text], [], []),
     'storeCallOffer' : IDL.Func([IDL.Text, IDL.Text, IDL.Principal], [], []),
+    'unblockUser' : IDL.Func([IDL.Principal], [], []),
+    'unbookmarkPost' : IDL.Func([IDL.Nat], [], []),
+    'undoRepost' : IDL.Func([IDL.Nat], [], []),
     'unfollowUser' : IDL.Func([IDL.Principal], [], []),
+    'unmuteUser' : IDL.Func([IDL.Principal], [], []),
+    'unpinPost' : IDL.Func([], [], []),
+    'votePoll' : IDL.Func([IDL.Nat, IDL.Vec(IDL.Nat)], [], []),
   });
 };
 
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { ExternalBlob, MediaKind, type PostMedia } from "../backend";
+
+export const MAX_POST_MEDIA = 10;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+export interface DraftMedia {
+  id: string;
+  kind: MediaKind;
+  previewUrl: string;
+  // Set for newly picked files; media already on the post only has a URL
+  file?: File;
+}
+
+let nextDraftId = 0;
+
+/**
+ * Photos and videos attached to a post that is being written or edited.
+ * New files are uploaded when `toPostMedia` is called, each reporting its
+ * own progress under its draft id.
+ */
+export function useDraftMedia(
+  initial: { url: string; kind: MediaKind }[] = [],
+) {
+  const [items, setItems] = useState<DraftMedia[]>(() =>
+    initial.map(({ url, kind }) => ({
+      id: `draft-${nextDraftId++}`,
+      kind,
+      previewUrl: url,
+    })),
+  );
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  // Object URLs for picked files are released when the draft goes away
+  useEffect(() => {
+    return () => {
+      for (const item of itemsRef.current) {
+        if (item.file) URL.revokeObjectURL(item.previewUrl);
+      }
+    };
+  }, []);
+
+  const add = useCallback((files: FileList | File[]) => {
+    const accepted: DraftMedia[] = [];
+    const room = MAX_POST_MEDIA - itemsRef.current.length;
+    for (const file of Array.from(files)) {
+      const isVideo = file.type.startsWith("video/");
+      if (!isVideo && !file.type.startsWith("image/")) {
+        toast.error(`${file.name} isn't a photo or video`);
+        continue;
+      }
+      if (file.size > (isVideo ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES)) {
+        toast.error(
+          isVideo
+            ? "Videos must be less than 50MB"
+            : "Images must be less than 5MB",
+        );
+        continue;
+      }
+      if (accepted.length >= room) {
+        toast.error(
+          `A post can have at most ${MAX_POST_MEDIA} photos or videos`,
+        );
+        break;
+      }
+      accepted.push({
+        id: `draft-${nextDraftId++}`,
+        kind: isVideo ? MediaKind.video : MediaKind.image,
+        previewUrl: URL.createObjectURL(file),
+        file,
+      });
+    }
+    if (accepted.length > 0) setItems((prev) => [...prev, ...accepted]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems((prev) => {
+      const item = prev.find((i) => i.id === id);
+      if (item?.file) URL.revokeObjectURL(item.previewUrl);
+      return prev.filter((i) => i.id !== id);
+    });
+  }, []);
+
+  const move = useCallback((id: string, offset: -1 | 1) => {
+    setItems((prev) => {
+      const from = prev.findIndex((i) => i.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  }, []);
+
+  const reset = useCallback(() => {
+    for (const item of itemsRef.current) {
+      if (item.file) URL.revokeObjectURL(item.previewUrl);
+    }
+    setItems([]);
+    setProgress({});
+  }, []);
+
+  const toPostMedia = useCallback(async (): Promise<PostMedia[]> => {
+    setProgress({});
+    return Promise.all(
+      itemsRef.current.map(async (item) => {
+        if (!item.file) {
+          return {
+            blob: ExternalBlob.fromURL(item.previewUrl),
+            kind: item.kind,
+          };
+        }
+        const bytes = new Uint8Array(await item.file.arrayBuffer());
+        const blob = ExternalBlob.fromBytes(bytes).withUploadProgress((pct) =>
+          setProgress((prev) => ({ ...prev, [item.id]: pct })),
+        );
+        return { blob, kind: item.kind };
+      }),
+    );
+  }, []);
+
+  return { items, progress, add, remove, move, reset, toPostMedia };
+}
@@ -0,0 +1,34 @@
+import { useState } from "react";
+
+/**
+ * Keyboard navigation for a result list driven from a text input.
+ * ArrowUp/ArrowDown move the highlight (wrapping around), Enter selects the
+ * highlighted item and Escape clears the highlight and calls `onEscape`.
+ */
+export function useListNavigation(
+  count: number,
+  onSelect: (index: number) => void,
+  onEscape?: () => void,
+) {
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // The list may shrink under the highlight while new results load
+  const index = activeIndex < count ? activeIndex : -1;
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" && count > 0) {
+      e.preventDefault();
+      setActiveIndex((index + 1) % count);
+    } else if (e.key === "ArrowUp" && count > 0) {
+      e.preventDefault();
+      setActiveIndex(index <= 0 ? count - 1 : index - 1);
+    } else if (e.key === "Enter" && index >= 0) {
+      e.preventDefault();
+      onSelect(index);
+    } else if (e.key === "Escape") {
+      setActiveIndex(-1);
+      onEscape?.();
+    }
+  };
+
+  return { activeIndex: index, setActiveIndex, onKeyDown };
+}
@@ -1,13 +1,33 @@
 import type { Principal } from "@icp-sdk/core/principal";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import type {
-  Comment,
+  Bookmark,
+  BookmarkCollectionSummary,
+  CommentsPage,
   ExternalBlob,
+  FriendSuggestion,
   Group,
   GroupMessage,
+  Notification,
+  Poll,
+  PollResults,
   Post,
+  PostMedia,
+  PostRevision,
+  PostVisibility,
+  PostsPage,
+  ReactorsPage,
   Reel,
+  Relationship,
+  ScheduledPost,
   UserProfile,
+  UserSearchResult,
 } from "../backend";
 import { useActor } from "./useActor";
 import { useInternetIdentity } from "./useInternetIdentity";
@@ -24,15 +44,13 @@ export interface StoreListing {
   timestamp: bigint;
 }
 
-export interface Notification {
-  id: bigint;
-  message: string;
-  read: boolean;
+export interface FriendRequest {
+  from: Principal;
   timestamp: bigint;
 }
 
-export interface FriendRequest {
-  from: Principal;
+export interface SentFriendRequest {
+  to: Principal;
   timestamp: bigint;
 }
 
@@ -92,72 +110,655 @@ export function useSaveProfile() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (profile: UserProfile) => {
+    mutationFn: async (profile: UserProfile) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.saveCallerUserProfile(profile);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["currentUserProfile"] });
+      // Going public approves every waiting follow request
+      queryClient.invalidateQueries({ queryKey: ["followRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["followers"] });
+    },
+  });
+}
+
+function invalidateOwnProfile(
+  queryClient: ReturnType<typeof useQueryClient>,
+  principal: Principal | undefined,
+) {
+  queryClient.invalidateQueries({ queryKey: ["currentUserProfile"] });
+  // Dropped rather than invalidated: useUserProfileCache serves whatever
+  // profile is in the cache
+  if (principal) {
+    queryClient.removeQueries({
+      queryKey: ["userProfile", principal.toString()],
+    });
+  }
+}
+
+export function usePinPost() {
+  const { actor } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (postId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.pinPost(postId);
+    },
+    onSuccess: () => {
+      invalidateOwnProfile(queryClient, identity?.getPrincipal());
+      invalidateFeeds(queryClient);
+    },
+  });
+}
+
+export function useUnpinPost() {
+  const { actor } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.unpinPost();
+    },
+    onSuccess: () => {
+      invalidateOwnProfile(queryClient, identity?.getPrincipal());
+      invalidateFeeds(queryClient);
+    },
+  });
+}
+
+export function useSearchUsers(term: string, limit = 20) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const trimmed = term.trim();
+  return useQuery<UserSearchResult[]>({
+    queryKey: ["searchUsers", trimmed.toLowerCase(), limit],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.searchUsers(trimmed, BigInt(limit));
+    },
+    enabled: !!actor && !actorFetching && !!trimmed,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useSearchUsernames(prefix: string, limit = 8) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<UserSearchResult[]>({
+    queryKey: ["searchUsernames", prefix.toLowerCase(), limit],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.searchUsernames(prefix, BigInt(limit));
+    },
+    enabled: !!actor && !actorFetching && !!prefix,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// ── Credentials ───────────────────────────────────────────────────────────
+
+// Codes returned at registration are parked in the query cache because the
+// login screen unmounts before they can be shown.
+export function useIssuedRecoveryCodes() {
+  const queryClient = useQueryClient();
+  const { data } = useQuery<string[] | null>({
+    queryKey: ["issuedRecoveryCodes"],
+    queryFn: () => null,
+    enabled: false,
+  });
+  return {
+    codes: data ?? null,
+    setCodes: (codes: string[] | null) =>
+      queryClient.setQueryData(["issuedRecoveryCodes"], codes),
+  };
+}
+
+export function useChangePassword() {
+  const { actor } = useActor();
+  return useMutation({
+    mutationFn: async ({
+      oldPassword,
+      newPassword,
+    }: {
+      oldPassword: string;
+      newPassword: string;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.changePassword(oldPassword, newPassword);
+    },
+  });
+}
+
+export function useResetPasswordWithRecoveryCode() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      username,
+      code,
+      newPassword,
+    }: {
+      username: string;
+      code: string;
+      newPassword: string;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.resetPasswordWithRecoveryCode(username, code, newPassword);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recoveryCodesRemaining"] });
+    },
+  });
+}
+
+export function useGetRecoveryCodesRemaining() {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<bigint>({
+    queryKey: ["recoveryCodesRemaining"],
+    queryFn: async () => {
+      if (!actor) return 0n;
+      return actor.getRecoveryCodesRemaining();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.regenerateRecoveryCodes();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recoveryCodesRemaining"] });
+    },
+  });
+}
+
+// ── Posts ─────────────────────────────────────────────────────────────────
+
+const POSTS_PAGE_SIZE = 10n;
+
+export function useGetAllPosts() {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useInfiniteQuery({
+    queryKey: ["allPosts"],
+    queryFn: async ({ pageParam }): Promise<PostsPage> => {
+      if (!actor) return { posts: [] };
+      return actor.getPostsPage(pageParam, POSTS_PAGE_SIZE);
+    },
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useGetHomeFeed() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useInfiniteQuery({
+    queryKey: ["homeFeed"],
+    queryFn: async ({ pageParam }): Promise<PostsPage> => {
+      if (!actor) return { posts: [] };
+      return actor.getHomeFeed(pageParam, POSTS_PAGE_SIZE);
+    },
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useSearchPosts(term: string) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const trimmed = term.trim();
+  return useInfiniteQuery({
+    queryKey: ["searchPosts", trimmed.toLowerCase()],
+    queryFn: async ({ pageParam }): Promise<PostsPage> => {
+      if (!actor) return { posts: [] };
+      return actor.searchPosts(trimmed, pageParam);
+    },
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching && !!trimmed,
+  });
+}
+
+export function useGetPostsByHashtag(tag: string) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useInfiniteQuery({
+    queryKey: ["hashtagPosts", tag.toLowerCase()],
+    queryFn: async ({ pageParam }): Promise<PostsPage> => {
+      if (!actor) return { posts: [] };
+      return actor.getPostsByHashtag(tag, pageParam);
+    },
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching && !!tag,
+  });
+}
+
+export function useGetPostsByUser(principal: Principal | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<Post[]>({
+    queryKey: ["postsByUser", principal?.toString()],
+    queryFn: async () => {
+      if (!actor || !principal) return [];
+      return actor.getPostsByUser(principal);
+    },
+    enabled: !!actor && !actorFetching && !!principal,
+  });
+}
+
+// Every post list the caller may have loaded
+function invalidateFeeds(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ["allPosts"] });
+  queryClient.invalidateQueries({ queryKey: ["homeFeed"] });
+  queryClient.invalidateQueries({ queryKey: ["searchPosts"] });
+  queryClient.invalidateQueries({ queryKey: ["hashtagPosts"] });
+  queryClient.invalidateQueries({ queryKey: ["postsByUser"] });
+}
+
+export function useCreatePost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      content,
+      media,
+      visibility,
+      poll,
+    }: {
+      content: string;
+      media: PostMedia[];
+      visibility: PostVisibility;
+      poll: Poll | null;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.createPost(content, media, visibility, poll);
+    },
+    onSuccess: () => {
+      invalidateFeeds(queryClient);
+    },
+  });
+}
+
+export function useDeletePost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (postId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+
+      await actor.deletePost(postId);
+    },
+    onSuccess: () => {
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmarkCollections"] });
+      queryClient.invalidateQueries({ queryKey: ["post"] });
+      queryClient.invalidateQueries({ queryKey: ["repostCount"] });
+      queryClient.invalidateQueries({ queryKey: ["hasReposted"] });
+      // Deleting the pinned post unpins it
+      queryClient.invalidateQueries({ queryKey: ["currentUserProfile"] });
+    },
+  });
+}
+
+export function useEditPost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      content,
+      media,
+    }: { postId: bigint; content: string; media: PostMedia[] }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.editPost(postId, content, media);
+    },
+    onSuccess: (_, { postId }) => {
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+      queryClient.invalidateQueries({ queryKey: ["post", postId.toString()] });
+      queryClient.invalidateQueries({
+        queryKey: ["postRevisions", postId.toString()],
+      });
+    },
+  });
+}
+
+export function useGetPostRevisions(postId: bigint, enabled = true) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<PostRevision[]>({
+    queryKey: ["postRevisions", postId.toString()],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getPostRevisions(postId);
+    },
+    enabled: !!actor && !actorFetching && enabled,
+  });
+}
+
+// ── Scheduled Posts ───────────────────────────────────────────────────────
+
+export function useGetMyScheduledPosts() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<ScheduledPost[]>({
+    queryKey: ["scheduledPosts"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getMyScheduledPosts();
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useSchedulePost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      content,
+      media,
+      visibility,
+      poll,
+      publishAt,
+    }: {
+      content: string;
+      media: PostMedia[];
+      visibility: PostVisibility;
+      poll: Poll | null;
+      publishAt: bigint;
+    }) => {
+      if (!actor) throw new Error("Actor not available");
+      return actor.schedulePost(content, media, visibility, poll, publishAt);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scheduledPosts"] });
+    },
+  });
+}
+
+export function useCancelScheduledPost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (scheduledPostId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.cancelScheduledPost(scheduledPostId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scheduledPosts"] });
+    },
+  });
+}
+
+export function useReschedulePost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      scheduledPostId,
+      publishAt,
+    }: { scheduledPostId: bigint; publishAt: bigint }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.reschedulePost(scheduledPostId, publishAt);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scheduledPosts"] });
+    },
+  });
+}
+
+// ── Polls ─────────────────────────────────────────────────────────────────
+
+// Refreshes every 15 seconds while the poll is open so result bars stay live
+export function useGetPollResults(postId: bigint) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<PollResults | null>({
+    queryKey: ["pollResults", postId.toString()],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getPollResults(postId);
+    },
+    enabled: !!actor && !actorFetching,
+    refetchInterval: (query) => (query.state.data?.closed ? false : 15_000),
+  });
+}
+
+export function useVotePoll() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      optionIndexes,
+    }: { postId: bigint; optionIndexes: bigint[] }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.votePoll(postId, optionIndexes);
+    },
+    onSuccess: (_, { postId }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["pollResults", postId.toString()],
+      });
+      invalidateFeeds(queryClient);
+    },
+  });
+}
+
+// ── Reposts ───────────────────────────────────────────────────────────────
+
+// Resolves to null when the post was deleted or isn't visible to the caller
+export function useGetPost(postId: bigint) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<Post | null>({
+    queryKey: ["post", postId.toString()],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getPost(postId);
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useGetRepostCount(postId: bigint) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useQuery<bigint>({
+    queryKey: ["repostCount", postId.toString()],
+    queryFn: async () => {
+      if (!actor) return 0n;
+      return actor.getRepostCount(postId);
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useCheckCallerHasReposted(postId: bigint) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<boolean>({
+    queryKey: ["hasReposted", postId.toString()],
+    queryFn: async () => {
+      if (!actor) return false;
+      return actor.checkCallerHasReposted(postId);
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useRepost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ postId, undo }: { postId: bigint; undo: boolean }) => {
+      if (!actor) throw new Error("Actor not available");
+      if (undo) {
+        await actor.undoRepost(postId);
+      } else {
+        await actor.repost(postId);
+      }
+    },
+    onSuccess: (_, { postId }) => {
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({
+        queryKey: ["repostCount", postId.toString()],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["hasReposted", postId.toString()],
+      });
+    },
+  });
+}
+
+export function useQuotePost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      content,
+    }: { postId: bigint; content: string }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.quotePost(postId, content);
+    },
+    onSuccess: (_, { postId }) => {
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({
+        queryKey: ["repostCount", postId.toString()],
+      });
+    },
+  });
+}
+
+// ── Bookmarks ─────────────────────────────────────────────────────────────
+
+export function useGetBookmark(postId: bigint) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<Bookmark | null>({
+    queryKey: ["bookmark", postId.toString()],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getBookmark(postId);
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+// `collectionId` null lists every saved post
+export function useGetBookmarks(collectionId: bigint | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useInfiniteQuery({
+    queryKey: ["bookmarks", collectionId?.toString() ?? "all"],
+    queryFn: async ({ pageParam }): Promise<PostsPage> => {
+      if (!actor) return { posts: [] };
+      return actor.getBookmarks(collectionId, pageParam);
+    },
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useGetBookmarkCollections() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<BookmarkCollectionSummary[]>({
+    queryKey: ["bookmarkCollections"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getBookmarkCollections();
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useBookmarkPost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      postId,
+      collectionId,
+    }: { postId: bigint; collectionId: bigint | null }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.bookmarkPost(postId, collectionId);
+    },
+    onSuccess: (_, { postId }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["bookmark", postId.toString()],
+      });
+      queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmarkCollections"] });
+    },
+  });
+}
+
+export function useUnbookmarkPost() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (postId: bigint) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.unbookmarkPost(postId);
+    },
+    onSuccess: (_, postId) => {
+      queryClient.invalidateQueries({
+        queryKey: ["bookmark", postId.toString()],
+      });
+      queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmarkCollections"] });
+    },
+  });
+}
+
+export function useCreateBookmarkCollection() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (name: string) => {
       if (!actor) throw new Error("Actor not available");
-      await actor.saveCallerUserProfile(profile);
+      return actor.createBookmarkCollection(name);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["currentUserProfile"] });
-    },
-  });
-}
-
-// ── Posts ─────────────────────────────────────────────────────────────────
-
-export function useGetAllPosts() {
-  const { actor, isFetching: actorFetching } = useActor();
-  return useQuery<Post[]>({
-    queryKey: ["allPosts"],
-    queryFn: async () => {
-      if (!actor) return [];
-      return actor.getAllPosts();
+      queryClient.invalidateQueries({ queryKey: ["bookmarkCollections"] });
     },
-    enabled: !!actor && !actorFetching,
-  });
-}
-
-export function useGetPostsByUser(principal: Principal | null) {
-  const { actor, isFetching: actorFetching } = useActor();
-  return useQuery<Post[]>({
-    queryKey: ["postsByUser", principal?.toString()],
-    queryFn: async () => {
-      if (!actor || !principal) return [];
-      return actor.getPostsByUser(principal);
-    },
-    enabled: !!actor && !actorFetching && !!principal,
   });
 }
 
-export function useCreatePost() {
+export function useRenameBookmarkCollection() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async ({
-      content,
-      image,
-    }: { content: string; image: ExternalBlob | null }) => {
+      collectionId,
+      name,
+    }: { collectionId: bigint; name: string }) => {
       if (!actor) throw new Error("Actor not available");
-      await actor.createPost(content, image);
+      await actor.renameBookmarkCollection(collectionId, name);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["allPosts"] });
-      queryClient.invalidateQueries({ queryKey: ["postsByUser"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmarkCollections"] });
     },
   });
 }
 
-export function useDeletePost() {
+export function useDeleteBookmarkCollection() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: async (postId: bigint) => {
+    mutationFn: async (collectionId: bigint) => {
       if (!actor) throw new Error("Actor not available");
-
-      await actor.deletePost(postId);
+      await actor.deleteBookmarkCollection(collectionId);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["allPosts"] });
-      queryClient.invalidateQueries({ queryKey: ["postsByUser"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmark"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+      queryClient.invalidateQueries({ queryKey: ["bookmarkCollections"] });
     },
   });
 }
@@ -217,24 +818,86 @@ export function useLikeOrUnlikePost() {
           identity?.getPrincipal().toString(),
         ],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["postReactors", postId.toString()],
+      });
     },
   });
 }
 
+// `emoji` null lists who liked the post
+export function useGetPostReactors(
+  postId: bigint,
+  emoji: string | null,
+  enabled = true,
+) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useInfiniteQuery({
+    queryKey: ["postReactors", postId.toString(), emoji ?? "like"],
+    queryFn: async ({ pageParam }): Promise<ReactorsPage> => {
+      if (!actor) return { reactors: [] };
+      return actor.getPostReactors(postId, emoji, pageParam);
+    },
+    initialPageParam: null as Principal | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching && enabled,
+  });
+}
+
 // ── Comments ──────────────────────────────────────────────────────────────
 
-export function useGetCommentsByPost(postId: bigint) {
+const COMMENTS_PAGE_SIZE = 10n;
+
+// Top-level comments when `parentCommentId` is null, otherwise the replies
+export function useGetComments(
+  postId: bigint,
+  parentCommentId: bigint | null,
+  enabled = true,
+) {
+  const { actor, isFetching: actorFetching } = useActor();
+  return useInfiniteQuery({
+    queryKey: [
+      "comments",
+      postId.toString(),
+      parentCommentId?.toString() ?? "top",
+    ],
+    queryFn: async ({ pageParam }): Promise<CommentsPage> => {
+      if (!actor) return { comments: [] };
+      return actor.getComments(
+        postId,
+        parentCommentId,
+        pageParam,
+        COMMENTS_PAGE_SIZE,
+      );
+    },
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!actor && !actorFetching && enabled,
+  });
+}
+
+export function useGetCommentCount(postId: bigint) {
   const { actor, isFetching: actorFetching } = useActor();
-  return useQuery<Comment[]>({
-    queryKey: ["comments", postId.toString()],
+  return useQuery<bigint>({
+    queryKey: ["commentCount", postId.toString()],
     queryFn: async () => {
-      if (!actor) return [];
-      return actor.getCommentsByPost(postId);
+      if (!actor) return 0n;
+      return actor.getCommentCount(postId);
     },
     enabled: !!actor && !actorFetching,
   });
 }
 
+function invalidateComments(
+  queryClient: ReturnType<typeof useQueryClient>,
+  postId: bigint,
+) {
+  queryClient.invalidateQueries({ queryKey: ["comments", postId.toString()] });
+  queryClient.invalidateQueries({
+    queryKey: ["commentCount", postId.toString()],
+  });
+}
+
 export function useAddComment() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
@@ -242,15 +905,12 @@ export function useAddComment() {
     mutationFn: async ({
       postId,
       content,
-    }: { postId: bigint; content: string }) => {
+      replyTo = null,
+    }: { postId: bigint; content: string; replyTo?: bigint | null }) => {
       if (!actor) throw new Error("Actor not available");
-      await actor.addComment(postId, content);
-    },
-    onSuccess: (_, { postId }) => {
-      queryClient.invalidateQueries({
-        queryKey: ["comments", postId.toString()],
-      });
+      await actor.addComment(postId, content, replyTo);
     },
+    onSuccess: (_, { postId }) => invalidateComments(queryClient, postId),
   });
 }
 
@@ -266,6 +926,21 @@ export function useDeleteComment() {
 
       await actor.deleteComment(commentId);
     },
+    onSuccess: (_, { postId }) => invalidateComments(queryClient, postId),
+  });
+}
+
+export function useLikeOrUnlikeComment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      commentId,
+      postId: _postId,
+    }: { commentId: bigint; postId: bigint }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.likeOrUnlikeComment(commentId);
+    },
     onSuccess: (_, { postId }) => {
       queryClient.invalidateQueries({
         queryKey: ["comments", postId.toString()],
@@ -303,6 +978,9 @@ export function useAddEmojiReaction() {
       queryClient.invalidateQueries({
         queryKey: ["emojiReactions", postId.toString()],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["postReactors", postId.toString()],
+      });
     },
   });
 }
@@ -326,6 +1004,46 @@ export function useGetPendingFriendRequests() {
   });
 }
 
+export function useGetSentFriendRequests() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<SentFriendRequest[]>({
+    queryKey: ["sentFriendRequests"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getSentFriendRequests();
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useGetFriendSuggestions(limit = 10) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<FriendSuggestion[]>({
+    queryKey: ["friendSuggestions", limit],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getFriendSuggestions(BigInt(limit));
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useDismissFriendSuggestion() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (user: Principal) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.dismissFriendSuggestion(user);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["friendSuggestions"] });
+    },
+  });
+}
+
 export function useGetFriends(principal: Principal | null) {
   const { actor, isFetching: actorFetching } = useActor();
   return useQuery<Principal[]>({
@@ -347,7 +1065,47 @@ export function useSendFriendRequest() {
       await actor.sendFriendRequest(to);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["friendRequestStatus"] });
+      queryClient.invalidateQueries({ queryKey: ["sentFriendRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["friendSuggestions"] });
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
+    },
+  });
+}
+
+export function useCancelFriendRequest() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (to: Principal) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.cancelFriendRequest(to);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["sentFriendRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["friendRequestStatus"] });
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
+    },
+  });
+}
+
+export function useRemoveFriend() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (user: Principal) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.removeFriend(user);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["friends"] });
+      queryClient.invalidateQueries({ queryKey: ["friendSuggestions"] });
       queryClient.invalidateQueries({ queryKey: ["friendRequestStatus"] });
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
     },
   });
 }
@@ -364,8 +1122,12 @@ export function useRespondToFriendRequest() {
       await actor.respondToFriendRequest(from, accept);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
       queryClient.invalidateQueries({ queryKey: ["pendingFriendRequests"] });
       queryClient.invalidateQueries({ queryKey: ["friends"] });
+      queryClient.invalidateQueries({ queryKey: ["friendSuggestions"] });
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
     },
   });
 }
@@ -388,6 +1150,20 @@ export function useCheckFriendRequestStatus(principal: Principal | null) {
   });
 }
 
+// Friend and follow status in both directions, blocks and mutual friends
+export function useGetRelationship(principal: Principal | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<Relationship | null>({
+    queryKey: ["relationship", principal?.toString()],
+    queryFn: async () => {
+      if (!actor || !principal) return null;
+      return actor.getRelationship(principal);
+    },
+    enabled: !!actor && !actorFetching && !!principal && !!identity,
+  });
+}
+
 // ── Store Listings ────────────────────────────────────────────────────────
 
 export function useGetAllStoreListings() {
@@ -466,6 +1242,26 @@ export function useDeleteStoreListing() {
   });
 }
 
+export function useSendListingInquiry() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      listingId,
+      content,
+    }: { listingId: bigint; seller: Principal; content: string }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.sendListingInquiry(listingId, content);
+    },
+    onSuccess: (_, { seller }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["conversation", seller.toString()],
+      });
+      queryClient.invalidateQueries({ queryKey: ["conversations"] });
+    },
+  });
+}
+
 // ── Follow / Followers ────────────────────────────────────────────────────
 
 export function useGetFollowers(principal: Principal | null) {
@@ -501,8 +1297,12 @@ export function useFollowUser() {
       await actor.followUser(user);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["followRequested"] });
       queryClient.invalidateQueries({ queryKey: ["following"] });
       queryClient.invalidateQueries({ queryKey: ["followers"] });
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
     },
   });
 }
@@ -516,8 +1316,154 @@ export function useUnfollowUser() {
       await actor.unfollowUser(user);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["following"] });
+      queryClient.invalidateQueries({ queryKey: ["followers"] });
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
+    },
+  });
+}
+
+// Whether the caller is waiting for a private account to approve their follow
+export function useCheckFollowRequested(principal: Principal | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<boolean>({
+    queryKey: ["followRequested", principal?.toString()],
+    queryFn: async () => {
+      if (!actor || !principal) return false;
+      return actor.checkFollowRequested(principal);
+    },
+    enabled: !!actor && !actorFetching && !!principal && !!identity,
+  });
+}
+
+export function useCancelFollowRequest() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (user: Principal) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.cancelFollowRequest(user);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["followRequested"] });
+    },
+  });
+}
+
+export function useGetFollowRequests() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<FriendRequest[]>({
+    queryKey: ["followRequests"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getFollowRequests();
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useRespondToFollowRequest() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      from,
+      accept,
+    }: { from: Principal; accept: boolean }) => {
+      if (!actor) throw new Error("Actor not available");
+      await actor.respondToFollowRequest(from, accept);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      queryClient.invalidateQueries({ queryKey: ["followRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["followers"] });
+    },
+  });
+}
+
+// ── Blocking & Muting ─────────────────────────────────────────────────────
+
+export function useGetBlockedUsers() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<Principal[]>({
+    queryKey: ["blockedUsers"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getBlockedUsers();
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useGetMutedUsers() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  return useQuery<Principal[]>({
+    queryKey: ["mutedUsers"],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getMutedUsers();
+    },
+    enabled: !!actor && !actorFetching && !!identity,
+  });
+}
+
+export function useBlockUser() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ user, undo }: { user: Principal; undo: boolean }) => {
+      if (!actor) throw new Error("Actor not available");
+      if (undo) {
+        await actor.unblockUser(user);
+      } else {
+        await actor.blockUser(user);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      // Blocking also ends friendships, requests and follows between the two
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["blockedUsers"] });
+      queryClient.invalidateQueries({ queryKey: ["friends"] });
+      queryClient.invalidateQueries({ queryKey: ["friendRequestStatus"] });
+      queryClient.invalidateQueries({ queryKey: ["pendingFriendRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["sentFriendRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["friendSuggestions"] });
       queryClient.invalidateQueries({ queryKey: ["following"] });
       queryClient.invalidateQueries({ queryKey: ["followers"] });
+      queryClient.invalidateQueries({ queryKey: ["followRequests"] });
+      queryClient.invalidateQueries({ queryKey: ["followRequested"] });
+      queryClient.invalidateQueries({ queryKey: ["allReels"] });
+      queryClient.invalidateQueries({ queryKey: ["reelsByUser"] });
+      queryClient.invalidateQueries({ queryKey: ["searchUsers"] });
+    },
+  });
+}
+
+export function useMuteUser() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ user, undo }: { user: Principal; undo: boolean }) => {
+      if (!actor) throw new Error("Actor not available");
+      if (undo) {
+        await actor.unmuteUser(user);
+      } else {
+        await actor.muteUser(user);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["relationship"] });
+      invalidateFeeds(queryClient);
+      queryClient.invalidateQueries({ queryKey: ["mutedUsers"] });
+      queryClient.invalidateQueries({ queryKey: ["allReels"] });
     },
   });
 }
@@ -607,11 +1553,7 @@ export function useGetNotifications() {
     queryKey: ["notifications"],
     queryFn: async () => {
       if (!actor) return [];
-      try {
-        return await (actor as any).getNotifications();
-      } catch {
-        return [];
-      }
+      return actor.getNotifications();
     },
     enabled: !!actor && !actorFetching && !!identity,
     refetchInterval: 30000,
@@ -624,11 +1566,7 @@ export function useMarkNotificationAsRead() {
   return useMutation({
     mutationFn: async (notificationId: bigint) => {
       if (!actor) throw new Error("Actor not available");
-      try {
-        await (actor as any).markNotificationAsRead(notificationId);
-      } catch {
-        // ignore if method doesn't exist
-      }
+      await actor.markNotificationAsRead(notificationId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["notifications"] });
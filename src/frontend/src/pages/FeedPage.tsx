@@ -1,30 +1,53 @@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
 import type { Principal } from "@icp-sdk/core/principal";
-import { Loader2, Rss, Search, UserCheck, UserPlus, UserX } from "lucide-react";
+import type {
+  InfiniteData,
+  UseInfiniteQueryResult,
+} from "@tanstack/react-query";
+import {
+  FileSearch,
+  Hash,
+  Loader2,
+  Rss,
+  Search,
+  UserCheck,
+  UserPlus,
+  UserX,
+  X,
+} from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
-import type { UserProfile } from "../backend";
+import type { PostsPage, UserProfile, UserSearchResult } from "../backend";
 import { PostCard } from "../components/PostCard";
 import { PostComposer } from "../components/PostComposer";
 import { UserAvatar } from "../components/UserAvatar";
 import { UserProfileModal } from "../components/UserProfileModal";
-import { useActor } from "../hooks/useActor";
-import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { useListNavigation } from "../hooks/useListNavigation";
 import { RequestStatus } from "../hooks/useQueries";
 import {
   useFollowUser,
   useGetAllPosts,
-  useGetFollowing,
+  useGetHomeFeed,
+  useGetPostsByHashtag,
+  useSearchPosts,
+  useSearchUsers,
   useSendFriendRequest,
 } from "../hooks/useQueries";
-import { useUserProfileCache } from "../hooks/useUserProfileCache";
+
+export type PostSearch =
+  | { kind: "text"; query: string }
+  | { kind: "hashtag"; tag: string };
 
 interface FeedPageProps {
   currentProfile: UserProfile | null;
   onMessageUser?: (principal: Principal) => void;
+  postSearch: PostSearch | null;
+  onPostSearchChange: (search: PostSearch | null) => void;
 }
 
 function PostSkeleton() {
@@ -44,42 +67,46 @@ function PostSkeleton() {
   );
 }
 
-interface SearchResult {
-  principal: Principal;
-  profile: UserProfile;
-  friendStatus: RequestStatus | null;
-  isFollowing: boolean;
-}
-
 interface SearchResultCardProps {
-  result: SearchResult;
+  result: UserSearchResult;
+  active: boolean;
   onSendFriendRequest: (principal: Principal) => void;
   onFollow: (principal: Principal) => void;
   onViewProfile: (principal: Principal) => void;
+  onHover: () => void;
 }
 
 function SearchResultCard({
   result,
+  active,
   onSendFriendRequest,
   onFollow,
   onViewProfile,
+  onHover,
 }: SearchResultCardProps) {
   const [optimisticFriendStatus, setOptimisticFriendStatus] =
-    useState<RequestStatus | null>(result.friendStatus);
+    useState<RequestStatus | null>(
+      (result.friendStatus as RequestStatus | undefined) ?? null,
+    );
   const [optimisticFollowing, setOptimisticFollowing] = useState(
     result.isFollowing,
   );
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (active) ref.current?.scrollIntoView({ block: "nearest" });
+  }, [active]);
 
   const handleAddFriend = (e: React.MouseEvent) => {
     e.stopPropagation();
     setOptimisticFriendStatus(RequestStatus.pending);
-    onSendFriendRequest(result.principal);
+    onSendFriendRequest(result.user);
   };
 
   const handleFollow = (e: React.MouseEvent) => {
     e.stopPropagation();
     setOptimisticFollowing(true);
-    onFollow(result.principal);
+    onFollow(result.user);
   };
 
   const isPending = optimisticFriendStatus === RequestStatus.pending;
@@ -87,21 +114,32 @@ function SearchResultCard({
 
   return (
     <motion.div
+      ref={ref}
       initial={{ opacity: 0, y: 6 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -6 }}
-      className="flex items-center gap-3 px-3 py-2.5 hover:bg-muted/50 rounded-xl transition-colors cursor-pointer"
-      onClick={() => onViewProfile(result.principal)}
+      className={cn(
+        "flex items-center gap-3 px-3 py-2.5 hover:bg-muted/50 rounded-xl transition-colors cursor-pointer",
+        active && "bg-muted/60",
+      )}
+      onClick={() => onViewProfile(result.user)}
+      onMouseEnter={onHover}
     >
       <UserAvatar profile={result.profile} size="sm" />
       <div className="flex-1 min-w-0">
         <p className="font-semibold text-sm font-display truncate leading-tight hover:underline">
           {result.profile.displayName}
         </p>
-        {result.profile.bio && (
+        {result.username ? (
           <p className="text-xs text-muted-foreground truncate leading-tight">
-            {result.profile.bio}
+            @{result.username}
           </p>
+        ) : (
+          result.profile.bio && (
+            <p className="text-xs text-muted-foreground truncate leading-tight">
+              {result.profile.bio}
+            </p>
+          )
         )}
       </div>
       <div className="flex items-center gap-1.5 flex-shrink-0">
@@ -165,118 +203,46 @@ function SearchResultCard({
   );
 }
 
+// Typing "#tag" searches for the hashtag instead of free text
+function toPostSearch(query: string): PostSearch | null {
+  const trimmed = query.trim();
+  const tag = trimmed.match(/^#([\p{L}\p{N}_]+)$/u)?.[1];
+  if (tag) return { kind: "hashtag", tag: tag.toLowerCase() };
+  return trimmed ? { kind: "text", query: trimmed } : null;
+}
+
 function FeedSearchBar({
-  myPrincipal,
   onMessage,
+  onSearchPosts,
 }: {
-  myPrincipal: Principal | undefined;
   onMessage?: (principal: Principal) => void;
+  onSearchPosts: (search: PostSearch) => void;
 }) {
-  const { actor } = useActor();
-  const { getProfile } = useUserProfileCache();
   const sendFriendRequest = useSendFriendRequest();
   const followUser = useFollowUser();
 
-  const { data: following = [] } = useGetFollowing(myPrincipal ?? null);
-  const followingSet = useMemo(
-    () => new Set(following.map((p) => p.toString())),
-    [following],
-  );
-
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<SearchResult[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
   const [profileModalPrincipal, setProfileModalPrincipal] =
     useState<Principal | null>(null);
-  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const doSearch = useCallback(
-    async (searchQuery: string) => {
-      if (!actor || !searchQuery.trim()) {
-        setResults([]);
-        setIsSearching(false);
-        return;
-      }
+  const debouncedQuery = useDebouncedValue(query.trim());
+  const { data: results = [], isFetching } = useSearchUsers(debouncedQuery);
+  const isSearching =
+    !!query.trim() && (query.trim() !== debouncedQuery || isFetching);
 
-      setIsSearching(true);
-      try {
-        const allUsers = await actor.getAllUsers();
-        const candidates: Principal[] = [];
-        for (const principal of allUsers) {
-          const key = principal.toString();
-          if (key === myPrincipal?.toString()) continue;
-          candidates.push(principal);
-        }
+  const handleViewProfile = (principal: Principal) => {
+    setIsOpen(false);
+    setProfileModalPrincipal(principal);
+  };
 
-        // Fetch profiles in parallel
-        const profileResults = await Promise.all(
-          candidates.map(async (principal) => {
-            const profile = await getProfile(principal);
-            return { principal, profile };
-          }),
-        );
-
-        // Filter by display name (fall back to principal string for users with no profile)
-        const lowerQuery = searchQuery.toLowerCase();
-        const matched = profileResults.filter(({ profile, principal }) => {
-          const name = profile?.displayName ?? principal.toString();
-          return name.toLowerCase().includes(lowerQuery);
-        });
-
-        // Fetch friend request status in parallel
-        const withStatus = await Promise.all(
-          matched.map(async ({ principal, profile }) => {
-            let status: RequestStatus | null = null;
-            try {
-              status = await (actor as any).checkFriendRequestStatus(principal);
-            } catch {
-              // ignore
-            }
-            // Provide a fallback profile for users without one
-            const resolvedProfile: UserProfile = profile ?? {
-              displayName: `User (${principal.toString().slice(0, 8)}...)`,
-              bio: "",
-              isProfessional: false,
-            };
-            return {
-              principal,
-              profile: resolvedProfile,
-              friendStatus: status,
-              isFollowing: followingSet.has(principal.toString()),
-            };
-          }),
-        );
-
-        setResults(withStatus);
-        setIsOpen(true);
-      } catch {
-        setResults([]);
-      } finally {
-        setIsSearching(false);
-      }
-    },
-    [actor, myPrincipal, followingSet, getProfile],
+  const { activeIndex, setActiveIndex, onKeyDown } = useListNavigation(
+    isOpen ? results.length : 0,
+    (index) => handleViewProfile(results[index].user),
+    () => setIsOpen(false),
   );
 
-  useEffect(() => {
-    if (debounceRef.current) clearTimeout(debounceRef.current);
-    if (!query.trim()) {
-      setResults([]);
-      setIsSearching(false);
-      setIsOpen(false);
-      return;
-    }
-    setIsSearching(true);
-    debounceRef.current = setTimeout(() => {
-      doSearch(query);
-    }, 300);
-    return () => {
-      if (debounceRef.current) clearTimeout(debounceRef.current);
-    };
-  }, [query, doSearch]);
-
   // Close on click outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -305,9 +271,13 @@ function FeedSearchBar({
     });
   };
 
-  const handleViewProfile = (principal: Principal) => {
+  const showResults = isOpen && !!query.trim();
+  const postSearch = toPostSearch(query);
+
+  const handleSearchPosts = () => {
+    if (!postSearch) return;
     setIsOpen(false);
-    setProfileModalPrincipal(principal);
+    onSearchPosts(postSearch);
   };
 
   return (
@@ -319,10 +289,23 @@ function FeedSearchBar({
           value={query}
           onChange={(e) => {
             setQuery(e.target.value);
-            if (e.target.value.trim()) setIsOpen(true);
+            setActiveIndex(-1);
+            setIsOpen(!!e.target.value.trim());
           }}
           onFocus={() => {
-            if (query.trim() && results.length > 0) setIsOpen(true);
+            if (query.trim()) setIsOpen(true);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowDown" && !isOpen && query.trim()) {
+              setIsOpen(true);
+            }
+            // Enter without a highlighted person searches posts
+            if (e.key === "Enter" && activeIndex < 0) {
+              e.preventDefault();
+              handleSearchPosts();
+              return;
+            }
+            onKeyDown(e);
           }}
           className="pl-9 pr-9 rounded-xl bg-muted/40 border-border/60 focus-visible:ring-primary/40"
         />
@@ -334,7 +317,6 @@ function FeedSearchBar({
             className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground hover:text-foreground transition-colors"
             onClick={() => {
               setQuery("");
-              setResults([]);
               setIsOpen(false);
             }}
           >
@@ -344,7 +326,7 @@ function FeedSearchBar({
       </div>
 
       <AnimatePresence>
-        {isOpen && query.trim() && (
+        {showResults && (
           <motion.div
             initial={{ opacity: 0, y: -8, scale: 0.98 }}
             animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -352,24 +334,68 @@ function FeedSearchBar({
             transition={{ duration: 0.15 }}
             className="absolute top-full left-0 right-0 mt-1.5 z-50 bg-card border border-border/60 rounded-2xl card-shadow overflow-hidden"
           >
+            {postSearch && (
+              <button
+                type="button"
+                onClick={handleSearchPosts}
+                className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-muted/50 transition-colors border-b border-border/60"
+              >
+                <div
+                  className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0"
+                  style={{ background: "oklch(0.94 0.04 250)" }}
+                >
+                  {postSearch.kind === "hashtag" ? (
+                    <Hash
+                      className="w-4 h-4"
+                      style={{ color: "oklch(0.45 0.18 262)" }}
+                    />
+                  ) : (
+                    <FileSearch
+                      className="w-4 h-4"
+                      style={{ color: "oklch(0.45 0.18 262)" }}
+                    />
+                  )}
+                </div>
+                <span className="flex-1 min-w-0 text-sm truncate">
+                  {postSearch.kind === "hashtag" ? (
+                    <>
+                      Posts tagged{" "}
+                      <span className="font-semibold">#{postSearch.tag}</span>
+                    </>
+                  ) : (
+                    <>
+                      Search posts for{" "}
+                      <span className="font-semibold">
+                        &ldquo;{postSearch.query}&rdquo;
+                      </span>
+                    </>
+                  )}
+                </span>
+                <kbd className="text-[10px] text-muted-foreground border border-border rounded px-1.5 py-0.5">
+                  Enter
+                </kbd>
+              </button>
+            )}
             {!isSearching && results.length === 0 ? (
               <div className="px-4 py-6 text-center">
                 <p className="text-sm font-semibold text-foreground font-display">
                   No users found
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Try a different name
+                  Try a different name or username
                 </p>
               </div>
             ) : (
               <div className="p-1.5 space-y-0.5 max-h-80 overflow-y-auto">
-                {results.map((result) => (
+                {results.map((result, index) => (
                   <SearchResultCard
-                    key={result.principal.toString()}
+                    key={result.user.toString()}
                     result={result}
+                    active={index === activeIndex}
                     onSendFriendRequest={handleSendFriendRequest}
                     onFollow={handleFollow}
                     onViewProfile={handleViewProfile}
+                    onHover={() => setActiveIndex(index)}
                   />
                 ))}
               </div>
@@ -389,27 +415,51 @@ function FeedSearchBar({
   );
 }
 
-export function FeedPage({ currentProfile, onMessageUser }: FeedPageProps) {
-  const { identity } = useInternetIdentity();
-  const { data: posts, isLoading } = useGetAllPosts();
-  const myPrincipal = identity?.getPrincipal();
-
-  const sortedPosts = useMemo(() => {
-    if (!posts) return [];
-    return [...posts].sort((a, b) => {
-      const tA = Number(a.timestamp / 1_000_000n);
-      const tB = Number(b.timestamp / 1_000_000n);
-      return tB - tA;
-    });
-  }, [posts]);
+type FeedMode = "following" | "everyone";
 
-  return (
-    <div className="space-y-3">
-      {/* Friend search bar */}
-      <FeedSearchBar myPrincipal={myPrincipal} onMessage={onMessageUser} />
+interface PostListProps {
+  feed: UseInfiniteQueryResult<InfiniteData<PostsPage>>;
+  emptyTitle: string;
+  emptyMessage: string;
+  onHashtagClick: (tag: string) => void;
+}
+
+function PostList({
+  feed,
+  emptyTitle,
+  emptyMessage,
+  onHashtagClick,
+}: PostListProps) {
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    feed;
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Pages arrive newest-first from the backend
+  const posts = useMemo(
+    () => data?.pages.flatMap((page) => page.posts) ?? [],
+    [data],
+  );
+
+  // Load the next page when the sentinel below the last post scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" },
+    );
 
-      <PostComposer currentProfile={currentProfile} />
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
+  return (
+    <>
       {isLoading && (
         <div className="space-y-3">
           {[1, 2, 3].map((i) => (
@@ -418,7 +468,7 @@ export function FeedPage({ currentProfile, onMessageUser }: FeedPageProps) {
         </div>
       )}
 
-      {!isLoading && sortedPosts.length === 0 && (
+      {!isLoading && posts.length === 0 && (
         <motion.div
           initial={{ opacity: 0, y: 16 }}
           animate={{ opacity: 1, y: 0 }}
@@ -434,20 +484,217 @@ export function FeedPage({ currentProfile, onMessageUser }: FeedPageProps) {
             />
           </div>
           <h3 className="font-display font-semibold text-foreground mb-2">
-            Your feed is empty
+            {emptyTitle}
           </h3>
-          <p className="text-sm text-muted-foreground">
-            Be the first to share something! Use the composer above to create
-            your first post.
-          </p>
+          <p className="text-sm text-muted-foreground">{emptyMessage}</p>
         </motion.div>
       )}
 
       <div className="space-y-3">
-        {sortedPosts.map((post) => (
-          <PostCard key={post.id.toString()} post={post} />
+        {posts.map((post) => (
+          <PostCard
+            key={post.id.toString()}
+            post={post}
+            onHashtagClick={onHashtagClick}
+          />
         ))}
       </div>
+
+      {isFetchingNextPage && (
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <PostSkeleton key={i} />
+          ))}
+        </div>
+      )}
+
+      <div ref={sentinelRef} aria-hidden="true" />
+    </>
+  );
+}
+
+interface FeedProps {
+  onHashtagClick: (tag: string) => void;
+}
+
+function HomeFeed({ onHashtagClick }: FeedProps) {
+  const feed = useGetHomeFeed();
+  return (
+    <PostList
+      feed={feed}
+      emptyTitle="Nothing from your people yet"
+      emptyMessage="Add friends or follow people to see their posts here, or switch to Everyone to explore."
+      onHashtagClick={onHashtagClick}
+    />
+  );
+}
+
+function EveryoneFeed({ onHashtagClick }: FeedProps) {
+  const feed = useGetAllPosts();
+  return (
+    <PostList
+      feed={feed}
+      emptyTitle="Your feed is empty"
+      emptyMessage="Be the first to share something! Use the composer above to create your first post."
+      onHashtagClick={onHashtagClick}
+    />
+  );
+}
+
+function HashtagFeed({ tag, onHashtagClick }: FeedProps & { tag: string }) {
+  const feed = useGetPostsByHashtag(tag);
+  return (
+    <PostList
+      feed={feed}
+      emptyTitle={`No posts tagged #${tag}`}
+      emptyMessage="Be the first to use this hashtag in a post."
+      onHashtagClick={onHashtagClick}
+    />
+  );
+}
+
+function PostSearchFeed({
+  query,
+  onHashtagClick,
+}: FeedProps & { query: string }) {
+  const feed = useSearchPosts(query);
+  return (
+    <PostList
+      feed={feed}
+      emptyTitle="No matching posts"
+      emptyMessage="Try different or fewer words."
+      onHashtagClick={onHashtagClick}
+    />
+  );
+}
+
+function PostSearchResults({
+  search,
+  onHashtagClick,
+  onClose,
+}: FeedProps & { search: PostSearch; onClose: () => void }) {
+  return (
+    <>
+      <div className="flex items-center gap-3 p-3 bg-card rounded-xl card-shadow">
+        <div
+          className="w-9 h-9 rounded-xl flex items-center justify-center flex-shrink-0"
+          style={{
+            background:
+              "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+          }}
+        >
+          {search.kind === "hashtag" ? (
+            <Hash className="w-4 h-4 text-white" />
+          ) : (
+            <FileSearch className="w-4 h-4 text-white" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-display font-semibold text-foreground truncate">
+            {search.kind === "hashtag" ? `#${search.tag}` : `“${search.query}”`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {search.kind === "hashtag" ? "Hashtag" : "Post search"}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 rounded-lg"
+          onClick={onClose}
+          aria-label="Back to feed"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {search.kind === "hashtag" ? (
+        <HashtagFeed
+          key={search.tag}
+          tag={search.tag}
+          onHashtagClick={onHashtagClick}
+        />
+      ) : (
+        <PostSearchFeed
+          key={search.query}
+          query={search.query}
+          onHashtagClick={onHashtagClick}
+        />
+      )}
+    </>
+  );
+}
+
+const feedModes: { id: FeedMode; label: string }[] = [
+  { id: "following", label: "Following" },
+  { id: "everyone", label: "Everyone" },
+];
+
+export function FeedPage({
+  currentProfile,
+  onMessageUser,
+  postSearch,
+  onPostSearchChange,
+}: FeedPageProps) {
+  const [feedMode, setFeedMode] = useState<FeedMode>("following");
+
+  const handleHashtagClick = (tag: string) => {
+    onPostSearchChange({ kind: "hashtag", tag });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Friend and post search bar */}
+      <FeedSearchBar
+        onMessage={onMessageUser}
+        onSearchPosts={onPostSearchChange}
+      />
+
+      {postSearch ? (
+        <PostSearchResults
+          search={postSearch}
+          onHashtagClick={handleHashtagClick}
+          onClose={() => onPostSearchChange(null)}
+        />
+      ) : (
+        <>
+          {/* Feed toggle */}
+          <div className="flex gap-1 p-1 bg-card rounded-xl card-shadow">
+            {feedModes.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setFeedMode(id)}
+                className={cn(
+                  "flex-1 py-2 rounded-lg text-sm font-semibold transition-all",
+                  feedMode === id
+                    ? "text-white"
+                    : "text-muted-foreground hover:text-foreground hover:bg-secondary",
+                )}
+                style={
+                  feedMode === id
+                    ? {
+                        background:
+                          "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+                      }
+                    : undefined
+                }
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <PostComposer currentProfile={currentProfile} />
+
+          {feedMode === "following" ? (
+            <HomeFeed onHashtagClick={handleHashtagClick} />
+          ) : (
+            <EveryoneFeed onHashtagClick={handleHashtagClick} />
+          )}
+        </>
+      )}
     </div>
   );
 }
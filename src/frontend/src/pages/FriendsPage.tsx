@@ -1,13 +1,22 @@
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
 import type { Principal } from "@icp-sdk/core/principal";
 import {
   Check,
   Loader2,
   Search,
+  Send,
   UserCheck,
+  UserMinus,
   UserPlus,
   UserX,
   Users,
@@ -15,9 +24,13 @@ import {
   X,
 } from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
-import type { UserProfile } from "../backend";
+import type {
+  FriendSuggestion,
+  UserProfile,
+  UserSearchResult,
+} from "../backend";
 import { UserAvatar } from "../components/UserAvatar";
 import { UserProfileModal } from "../components/UserProfileModal";
 import {
@@ -26,12 +39,22 @@ import {
   VideoCallModal,
 } from "../components/VideoCallModal";
 import { useActor } from "../hooks/useActor";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
 import { useInternetIdentity } from "../hooks/useInternetIdentity";
+import { useListNavigation } from "../hooks/useListNavigation";
 import { RequestStatus } from "../hooks/useQueries";
 import {
+  useCancelFriendRequest,
+  useDismissFriendSuggestion,
+  useGetFollowRequests,
+  useGetFriendSuggestions,
   useGetFriends,
   useGetPendingFriendRequests,
+  useGetSentFriendRequests,
+  useRemoveFriend,
+  useRespondToFollowRequest,
   useRespondToFriendRequest,
+  useSearchUsers,
   useSendFriendRequest,
 } from "../hooks/useQueries";
 import { useUserProfileCache } from "../hooks/useUserProfileCache";
@@ -104,14 +127,77 @@ function FriendRequestCard({
   );
 }
 
+function SentRequestCard({
+  toPrincipal,
+  onCancel,
+  onViewProfile,
+}: {
+  toPrincipal: Principal;
+  onCancel: () => void;
+  onViewProfile: (principal: Principal) => void;
+}) {
+  const { getProfile } = useUserProfileCache();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    getProfile(toPrincipal).then(setProfile);
+  }, [toPrincipal, getProfile]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: -12 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="flex items-center gap-3 p-3 bg-card rounded-xl card-shadow"
+    >
+      <button
+        type="button"
+        className="flex items-center gap-3 flex-1 min-w-0 text-left hover:opacity-80 transition-opacity"
+        onClick={() => onViewProfile(toPrincipal)}
+      >
+        <UserAvatar profile={profile} size="md" />
+        <div className="flex-1 min-w-0">
+          {profile ? (
+            <>
+              <p className="font-semibold text-sm font-display truncate hover:underline">
+                {profile.displayName}
+              </p>
+              {profile.bio && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {profile.bio}
+                </p>
+              )}
+            </>
+          ) : (
+            <div className="space-y-1">
+              <Skeleton className="w-28 h-3.5 rounded" />
+              <Skeleton className="w-20 h-3 rounded" />
+            </div>
+          )}
+        </div>
+      </button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-8 px-3 rounded-lg text-xs font-semibold flex-shrink-0"
+        onClick={onCancel}
+      >
+        <X className="w-3.5 h-3.5 mr-1" />
+        Cancel
+      </Button>
+    </motion.div>
+  );
+}
+
 function FriendCard({
   principal,
   onVideoCall,
   onViewProfile,
+  onUnfriend,
 }: {
   principal: Principal;
   onVideoCall: (principal: Principal, profile: UserProfile | null) => void;
   onViewProfile: (principal: Principal) => void;
+  onUnfriend: (principal: Principal) => void;
 }) {
   const { getProfile } = useUserProfileCache();
   const [profile, setProfile] = useState<UserProfile | null>(null);
@@ -169,34 +255,59 @@ function FriendCard({
             style={{ color: "oklch(0.45 0.18 262)" }}
           />
         </Button>
-        <UserCheck className="w-4 h-4 text-muted-foreground" />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 rounded-lg"
+              title="Friends"
+            >
+              <UserCheck className="w-4 h-4 text-muted-foreground" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-40 rounded-xl">
+            <DropdownMenuItem
+              onClick={() => onUnfriend(principal)}
+              className="text-destructive focus:text-destructive"
+            >
+              <UserMinus className="w-4 h-4" />
+              Unfriend
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </motion.div>
   );
 }
 
-interface FindResult {
-  principal: Principal;
-  profile: UserProfile;
-  status: RequestStatus | null;
-}
-
 function FindFriendCard({
   result,
+  active,
   onSendRequest,
   onViewProfile,
+  onHover,
 }: {
-  result: FindResult;
+  result: UserSearchResult;
+  active: boolean;
   onSendRequest: (principal: Principal) => void;
   onViewProfile: (principal: Principal) => void;
+  onHover: () => void;
 }) {
   const [optimisticStatus, setOptimisticStatus] =
-    useState<RequestStatus | null>(result.status);
+    useState<RequestStatus | null>(
+      (result.friendStatus as RequestStatus | undefined) ?? null,
+    );
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (active) ref.current?.scrollIntoView({ block: "nearest" });
+  }, [active]);
 
   const handleAdd = (e: React.MouseEvent) => {
     e.stopPropagation();
     setOptimisticStatus(RequestStatus.pending);
-    onSendRequest(result.principal);
+    onSendRequest(result.user);
   };
 
   const isPending = optimisticStatus === RequestStatus.pending;
@@ -204,21 +315,32 @@ function FindFriendCard({
 
   return (
     <motion.div
+      ref={ref}
       initial={{ opacity: 0, y: 8 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -8 }}
-      className="flex items-center gap-3 p-3 bg-card rounded-xl card-shadow cursor-pointer hover:bg-muted/30 transition-colors"
-      onClick={() => onViewProfile(result.principal)}
+      className={cn(
+        "flex items-center gap-3 p-3 bg-card rounded-xl card-shadow cursor-pointer hover:bg-muted/30 transition-colors",
+        active && "ring-2 ring-primary/40",
+      )}
+      onClick={() => onViewProfile(result.user)}
+      onMouseEnter={onHover}
     >
       <UserAvatar profile={result.profile} size="md" />
       <div className="flex-1 min-w-0">
         <p className="font-semibold text-sm font-display truncate hover:underline">
           {result.profile.displayName}
         </p>
-        {result.profile.bio && (
+        {result.username ? (
           <p className="text-xs text-muted-foreground truncate">
-            {result.profile.bio}
+            @{result.username}
           </p>
+        ) : (
+          result.profile.bio && (
+            <p className="text-xs text-muted-foreground truncate">
+              {result.profile.bio}
+            </p>
+          )
         )}
       </div>
       <div className="flex-shrink-0">
@@ -263,101 +385,193 @@ function FindFriendCard({
   );
 }
 
-function FindFriendsTab({
-  myPrincipal,
+function suggestionReason(suggestion: FriendSuggestion): string {
+  const mutual = Number(suggestion.mutualFriends);
+  if (mutual > 0) {
+    return mutual === 1 ? "1 mutual friend" : `${mutual} mutual friends`;
+  }
+  const shared = Number(suggestion.sharedFollows);
+  return shared === 1
+    ? "Follows 1 account you follow"
+    : `Follows ${shared} accounts you follow`;
+}
+
+function SuggestionCard({
+  suggestion,
+  onSendRequest,
+  onDismiss,
+  onViewProfile,
 }: {
-  myPrincipal: Principal | undefined;
+  suggestion: FriendSuggestion;
+  onSendRequest: (principal: Principal) => void;
+  onDismiss: (principal: Principal) => void;
+  onViewProfile: (principal: Principal) => void;
 }) {
-  const { actor } = useActor();
-  const { getProfile } = useUserProfileCache();
+  const [requested, setRequested] = useState(false);
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="flex items-center gap-3 p-3 bg-card rounded-xl card-shadow"
+    >
+      <button
+        type="button"
+        className="flex items-center gap-3 flex-1 min-w-0 text-left hover:opacity-80 transition-opacity"
+        onClick={() => onViewProfile(suggestion.user)}
+      >
+        <UserAvatar profile={suggestion.profile} size="md" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-sm font-display truncate hover:underline">
+            {suggestion.profile.displayName}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">
+            {suggestionReason(suggestion)}
+          </p>
+        </div>
+      </button>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {requested ? (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled
+            className="h-8 px-3 rounded-lg text-xs font-semibold text-muted-foreground"
+          >
+            Pending
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="h-8 px-3 rounded-lg text-xs font-semibold"
+            style={{
+              background:
+                "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+              color: "white",
+            }}
+            onClick={() => {
+              setRequested(true);
+              onSendRequest(suggestion.user);
+            }}
+          >
+            <UserPlus className="w-3.5 h-3.5 mr-1" />
+            Add Friend
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0 rounded-lg text-muted-foreground"
+          onClick={() => onDismiss(suggestion.user)}
+          title="Don't suggest again"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
+
+function FriendSuggestions({
+  onSendRequest,
+  onViewProfile,
+}: {
+  onSendRequest: (principal: Principal) => void;
+  onViewProfile: (principal: Principal) => void;
+}) {
+  const { data: suggestions = [], isLoading } = useGetFriendSuggestions();
+  const dismissSuggestion = useDismissFriendSuggestion();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const visible = suggestions.filter(
+    (s) => !dismissed.includes(s.user.toString()),
+  );
+
+  const handleDismiss = (user: Principal) => {
+    setDismissed((prev) => [...prev, user.toString()]);
+    dismissSuggestion.mutate(user, {
+      onError: () => {
+        toast.error("Failed to dismiss suggestion");
+        setDismissed((prev) => prev.filter((p) => p !== user.toString()));
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-16 rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (visible.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div
+          className="w-14 h-14 rounded-2xl mx-auto mb-3 flex items-center justify-center"
+          style={{ background: "oklch(0.94 0.04 250)" }}
+        >
+          <Search
+            className="w-7 h-7"
+            style={{ color: "oklch(0.45 0.18 262)" }}
+          />
+        </div>
+        <p className="font-semibold text-foreground font-display">
+          Find new friends
+        </p>
+        <p className="text-sm text-muted-foreground mt-1">
+          Search by name or username — use the arrow keys and Enter to open a
+          profile
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold font-display text-foreground">
+        People you may know
+      </h3>
+      <AnimatePresence mode="popLayout">
+        {visible.map((suggestion) => (
+          <SuggestionCard
+            key={suggestion.user.toString()}
+            suggestion={suggestion}
+            onSendRequest={onSendRequest}
+            onDismiss={handleDismiss}
+            onViewProfile={onViewProfile}
+          />
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+function FindFriendsTab() {
   const sendFriendRequest = useSendFriendRequest();
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<FindResult[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
   const [profileModalPrincipal, setProfileModalPrincipal] =
     useState<Principal | null>(null);
-  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const doSearch = useCallback(
-    async (searchQuery: string) => {
-      if (!actor || !searchQuery.trim()) {
-        setResults([]);
-        setIsSearching(false);
-        return;
-      }
 
-      setIsSearching(true);
-      try {
-        const allUsers = await actor.getAllUsers();
-        const candidates: Principal[] = [];
-        for (const principal of allUsers) {
-          const key = principal.toString();
-          // Only exclude self -- friends should appear in results too (with "Friends" status shown)
-          if (key === myPrincipal?.toString()) continue;
-          candidates.push(principal);
-        }
+  const debouncedQuery = useDebouncedValue(query.trim());
+  const {
+    data: results = [],
+    isFetching,
+    isError,
+  } = useSearchUsers(debouncedQuery);
+  const isSearching =
+    !!query.trim() && (query.trim() !== debouncedQuery || isFetching);
 
-        // Fetch profiles in parallel
-        const profileResults = await Promise.all(
-          candidates.map(async (principal) => {
-            const profile = await getProfile(principal);
-            return { principal, profile };
-          }),
-        );
-
-        // Filter by display name (or include users with no profile as fallback)
-        const lowerQuery = searchQuery.toLowerCase();
-        const matched = profileResults.filter(({ profile, principal }) => {
-          const name = profile?.displayName ?? principal.toString();
-          return name.toLowerCase().includes(lowerQuery);
-        });
-
-        const withStatus = await Promise.all(
-          matched.map(async ({ principal, profile }) => {
-            let status: RequestStatus | null = null;
-            try {
-              status = await (actor as any).checkFriendRequestStatus(principal);
-            } catch {
-              // ignore -- user still shows up, just without status
-            }
-            // Provide a fallback profile for users who haven't set one up yet
-            const resolvedProfile: UserProfile = profile ?? {
-              displayName: `User (${principal.toString().slice(0, 8)}...)`,
-              bio: "",
-              isProfessional: false,
-            };
-            return { principal, profile: resolvedProfile, status };
-          }),
-        );
-
-        setResults(withStatus);
-      } catch (error) {
-        console.error("Friend search failed:", error);
-        toast.error("Search failed. Please try again.");
-        setResults([]);
-      } finally {
-        setIsSearching(false);
-      }
-    },
-    [actor, myPrincipal, getProfile],
+  const { activeIndex, setActiveIndex, onKeyDown } = useListNavigation(
+    query.trim() ? results.length : 0,
+    (index) => setProfileModalPrincipal(results[index].user),
+    () => setQuery(""),
   );
 
-  useEffect(() => {
-    if (debounceRef.current) clearTimeout(debounceRef.current);
-    if (!query.trim()) {
-      setResults([]);
-      setIsSearching(false);
-      return;
-    }
-    setIsSearching(true);
-    debounceRef.current = setTimeout(() => {
-      doSearch(query);
-    }, 300);
-    return () => {
-      if (debounceRef.current) clearTimeout(debounceRef.current);
-    };
-  }, [query, doSearch]);
-
   const handleSendRequest = (principal: Principal) => {
     sendFriendRequest.mutate(principal, {
       onSuccess: () => {
@@ -374,9 +588,13 @@ function FindFriendsTab({
       <div className="relative">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
         <Input
-          placeholder="Search by name..."
+          placeholder="Search by name or username..."
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(-1);
+          }}
+          onKeyDown={onKeyDown}
           className="pl-9 rounded-xl bg-muted/40 border-border/60 focus-visible:ring-primary/40"
         />
         {isSearching && (
@@ -385,27 +603,13 @@ function FindFriendsTab({
       </div>
 
       {!query.trim() && (
-        <div className="text-center py-12">
-          <div
-            className="w-14 h-14 rounded-2xl mx-auto mb-3 flex items-center justify-center"
-            style={{ background: "oklch(0.94 0.04 250)" }}
-          >
-            <Search
-              className="w-7 h-7"
-              style={{ color: "oklch(0.45 0.18 262)" }}
-            />
-          </div>
-          <p className="font-semibold text-foreground font-display">
-            Find new friends
-          </p>
-          <p className="text-sm text-muted-foreground mt-1">
-            Search by name to find friends — click a result to view their
-            profile
-          </p>
-        </div>
+        <FriendSuggestions
+          onSendRequest={handleSendRequest}
+          onViewProfile={(p) => setProfileModalPrincipal(p)}
+        />
       )}
 
-      {query.trim() && !isSearching && results.length === 0 && (
+      {query.trim() && !isSearching && (isError || results.length === 0) && (
         <div className="text-center py-12">
           <div
             className="w-14 h-14 rounded-2xl mx-auto mb-3 flex items-center justify-center"
@@ -417,26 +621,30 @@ function FindFriendsTab({
             />
           </div>
           <p className="font-semibold text-foreground font-display">
-            No users found
+            {isError ? "Search failed" : "No users found"}
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            Try a different name
+            {isError ? "Please try again" : "Try a different name or username"}
           </p>
         </div>
       )}
 
-      <AnimatePresence mode="popLayout">
-        <div className="space-y-3">
-          {results.map((result) => (
-            <FindFriendCard
-              key={result.principal.toString()}
-              result={result}
-              onSendRequest={handleSendRequest}
-              onViewProfile={(p) => setProfileModalPrincipal(p)}
-            />
-          ))}
-        </div>
-      </AnimatePresence>
+      {query.trim() && (
+        <AnimatePresence mode="popLayout">
+          <div className="space-y-3">
+            {results.map((result, index) => (
+              <FindFriendCard
+                key={result.user.toString()}
+                result={result}
+                active={index === activeIndex}
+                onSendRequest={handleSendRequest}
+                onViewProfile={(p) => setProfileModalPrincipal(p)}
+                onHover={() => setActiveIndex(index)}
+              />
+            ))}
+          </div>
+        </AnimatePresence>
+      )}
 
       {/* User profile modal */}
       <UserProfileModal
@@ -460,10 +668,16 @@ export function FriendsPage() {
   const { getProfile } = useUserProfileCache();
   const { data: pendingRequests = [], isLoading: requestsLoading } =
     useGetPendingFriendRequests();
+  const { data: sentRequests = [], isLoading: sentLoading } =
+    useGetSentFriendRequests();
+  const { data: followRequests = [] } = useGetFollowRequests();
   const { data: friends = [], isLoading: friendsLoading } = useGetFriends(
     identity?.getPrincipal() ?? null,
   );
   const respondToRequest = useRespondToFriendRequest();
+  const respondToFollowRequest = useRespondToFollowRequest();
+  const cancelRequest = useCancelFriendRequest();
+  const removeFriend = useRemoveFriend();
 
   // Outgoing call state
   const [activeCall, setActiveCall] = useState<{
@@ -552,6 +766,44 @@ export function FriendsPage() {
     );
   };
 
+  const handleFollowRespond = (from: Principal, accept: boolean) => {
+    respondToFollowRequest.mutate(
+      { from, accept },
+      {
+        onSuccess: () => {
+          toast.success(
+            accept ? "Follow request approved" : "Follow request declined",
+          );
+        },
+        onError: () => {
+          toast.error("Failed to respond to follow request");
+        },
+      },
+    );
+  };
+
+  const handleCancelRequest = (to: Principal) => {
+    cancelRequest.mutate(to, {
+      onSuccess: () => {
+        toast.success("Friend request cancelled");
+      },
+      onError: () => {
+        toast.error("Failed to cancel friend request");
+      },
+    });
+  };
+
+  const handleUnfriend = (user: Principal) => {
+    removeFriend.mutate(user, {
+      onSuccess: () => {
+        toast.success("Removed from friends");
+      },
+      onError: () => {
+        toast.error("Failed to remove friend");
+      },
+    });
+  };
+
   return (
     <div className="space-y-4">
       <div>
@@ -569,12 +821,24 @@ export function FriendsPage() {
           >
             <UserX className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
             <span>Requests</span>
-            {pendingRequests.length > 0 && (
+            {pendingRequests.length + followRequests.length > 0 && (
               <span
                 className="text-xs font-bold px-1.5 py-0.5 rounded-full text-white"
                 style={{ background: "oklch(0.62 0.24 25)" }}
               >
-                {pendingRequests.length}
+                {pendingRequests.length + followRequests.length}
+              </span>
+            )}
+          </TabsTrigger>
+          <TabsTrigger
+            value="sent"
+            className="flex-1 rounded-lg gap-1.5 text-xs sm:text-sm"
+          >
+            <Send className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+            <span>Sent</span>
+            {sentRequests.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                ({sentRequests.length})
               </span>
             )}
           </TabsTrigger>
@@ -618,31 +882,95 @@ export function FriendsPage() {
             </div>
           )}
 
-          {!requestsLoading && pendingRequests.length === 0 && (
+          {!requestsLoading &&
+            pendingRequests.length === 0 &&
+            followRequests.length === 0 && (
+              <div className="text-center py-12">
+                <div
+                  className="w-14 h-14 rounded-2xl mx-auto mb-3 flex items-center justify-center"
+                  style={{ background: "oklch(0.94 0.04 250)" }}
+                >
+                  <UserX
+                    className="w-7 h-7"
+                    style={{ color: "oklch(0.45 0.18 262)" }}
+                  />
+                </div>
+                <p className="font-semibold text-foreground font-display">
+                  No pending requests
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  You&apos;re all caught up!
+                </p>
+              </div>
+            )}
+
+          {pendingRequests.map((req) => (
+            <FriendRequestCard
+              key={req.from.toString()}
+              fromPrincipal={req.from}
+              onRespond={(accept) => handleRespond(req.from, accept)}
+            />
+          ))}
+
+          {followRequests.length > 0 && (
+            <h3 className="text-sm font-semibold font-display text-foreground pt-2">
+              Follow requests
+            </h3>
+          )}
+          {followRequests.map((req) => (
+            <FriendRequestCard
+              key={req.from.toString()}
+              fromPrincipal={req.from}
+              onRespond={(accept) => handleFollowRespond(req.from, accept)}
+            />
+          ))}
+        </TabsContent>
+
+        <TabsContent value="sent" className="mt-4 space-y-3">
+          {sentLoading && (
+            <div className="space-y-3">
+              {[1, 2].map((i) => (
+                <div
+                  key={i}
+                  className="flex items-center gap-3 p-3 bg-card rounded-xl card-shadow"
+                >
+                  <Skeleton className="w-10 h-10 rounded-full" />
+                  <div className="flex-1 space-y-1.5">
+                    <Skeleton className="w-32 h-3.5 rounded" />
+                    <Skeleton className="w-20 h-3 rounded" />
+                  </div>
+                  <Skeleton className="w-20 h-8 rounded-lg" />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!sentLoading && sentRequests.length === 0 && (
             <div className="text-center py-12">
               <div
                 className="w-14 h-14 rounded-2xl mx-auto mb-3 flex items-center justify-center"
                 style={{ background: "oklch(0.94 0.04 250)" }}
               >
-                <UserX
+                <Send
                   className="w-7 h-7"
                   style={{ color: "oklch(0.45 0.18 262)" }}
                 />
               </div>
               <p className="font-semibold text-foreground font-display">
-                No pending requests
+                No sent requests
               </p>
               <p className="text-sm text-muted-foreground mt-1">
-                You&apos;re all caught up!
+                Requests you send will wait here until they&apos;re answered.
               </p>
             </div>
           )}
 
-          {pendingRequests.map((req) => (
-            <FriendRequestCard
-              key={req.from.toString()}
-              fromPrincipal={req.from}
-              onRespond={(accept) => handleRespond(req.from, accept)}
+          {sentRequests.map((req) => (
+            <SentRequestCard
+              key={req.to.toString()}
+              toPrincipal={req.to}
+              onCancel={() => handleCancelRequest(req.to)}
+              onViewProfile={(p) => setProfileModalPrincipal(p)}
             />
           ))}
         </TabsContent>
@@ -691,12 +1019,13 @@ export function FriendsPage() {
               principal={principal}
               onVideoCall={handleVideoCall}
               onViewProfile={(p) => setProfileModalPrincipal(p)}
+              onUnfriend={handleUnfriend}
             />
           ))}
         </TabsContent>
 
         <TabsContent value="find" className="mt-4">
-          <FindFriendsTab myPrincipal={myPrincipal} />
+          <FindFriendsTab />
         </TabsContent>
       </Tabs>
 
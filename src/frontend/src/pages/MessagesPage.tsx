@@ -700,9 +700,13 @@ interface IncomingCall {
 
 interface MessagesPageProps {
   initialContact?: Principal;
+  initialGroupId?: bigint;
 }
 
-export function MessagesPage({ initialContact }: MessagesPageProps) {
+export function MessagesPage({
+  initialContact,
+  initialGroupId,
+}: MessagesPageProps) {
   const { identity } = useInternetIdentity();
   const { actor } = useActor();
   const { getProfile } = useUserProfileCache();
@@ -767,6 +771,19 @@ export function MessagesPage({ initialContact }: MessagesPageProps) {
     }
   }, [initialContact]);
 
+  // Open the requested group once it shows up in the group list
+  const openedGroupRef = useRef<bigint | null>(null);
+  useEffect(() => {
+    if (initialGroupId === undefined) return;
+    if (openedGroupRef.current === initialGroupId) return;
+    const group = groups.find((g) => g.id === initialGroupId);
+    if (group) {
+      openedGroupRef.current = initialGroupId;
+      setActiveThread({ type: "group", group });
+      setMobileView("thread");
+    }
+  }, [initialGroupId, groups]);
+
   const handleSelectDM = (principal: Principal) => {
     setActiveThread({ type: "dm", principal });
     setMobileView("thread");
@@ -1,17 +1,152 @@
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import { Bell, BellOff, Check } from "lucide-react";
+import type { Principal } from "@icp-sdk/core/principal";
+import {
+  AtSign,
+  Bell,
+  BellOff,
+  Check,
+  Gift,
+  Heart,
+  Lock,
+  type LucideIcon,
+  MessageCircle,
+  PenLine,
+  Repeat2,
+  Reply,
+  ShoppingBag,
+  Smile,
+  UserCheck,
+  UserPlus,
+  Users,
+} from "lucide-react";
 import { motion } from "motion/react";
+import { useEffect, useState } from "react";
 import { toast } from "sonner";
-import type { Notification } from "../hooks/useQueries";
+import {
+  type Notification,
+  NotificationKind,
+  type UserProfile,
+} from "../backend";
+import { PostDialog } from "../components/PostDialog";
+import { UserAvatar } from "../components/UserAvatar";
+import { UserProfileModal } from "../components/UserProfileModal";
 import {
   useGetNotifications,
   useMarkNotificationAsRead,
 } from "../hooks/useQueries";
+import { useUserProfileCache } from "../hooks/useUserProfileCache";
 import { formatRelativeTime } from "../utils/formatTime";
 
-function NotificationItem({ notification }: { notification: Notification }) {
+const kindConfig: Record<
+  NotificationKind,
+  { icon: LucideIcon; color: string; text: string }
+> = {
+  [NotificationKind.like]: {
+    icon: Heart,
+    color: "oklch(0.62 0.24 25)",
+    text: "liked your post",
+  },
+  [NotificationKind.comment]: {
+    icon: MessageCircle,
+    color: "oklch(0.52 0.18 250)",
+    text: "commented on your post",
+  },
+  [NotificationKind.reaction]: {
+    icon: Smile,
+    color: "oklch(0.72 0.17 75)",
+    text: "reacted to your post",
+  },
+  [NotificationKind.mention]: {
+    icon: AtSign,
+    color: "oklch(0.52 0.18 250)",
+    text: "mentioned you",
+  },
+  [NotificationKind.reply]: {
+    icon: Reply,
+    color: "oklch(0.52 0.18 250)",
+    text: "replied to your comment",
+  },
+  [NotificationKind.commentLike]: {
+    icon: Heart,
+    color: "oklch(0.62 0.24 25)",
+    text: "liked your comment",
+  },
+  [NotificationKind.repost]: {
+    icon: Repeat2,
+    color: "oklch(0.55 0.15 155)",
+    text: "reposted your post",
+  },
+  [NotificationKind.quote]: {
+    icon: PenLine,
+    color: "oklch(0.55 0.15 155)",
+    text: "quoted your post",
+  },
+  [NotificationKind.follow]: {
+    icon: UserPlus,
+    color: "oklch(0.45 0.18 262)",
+    text: "started following you",
+  },
+  [NotificationKind.followRequest]: {
+    icon: Lock,
+    color: "oklch(0.45 0.18 262)",
+    text: "asked to follow you",
+  },
+  [NotificationKind.followAccepted]: {
+    icon: UserCheck,
+    color: "oklch(0.45 0.18 262)",
+    text: "approved your follow request",
+  },
+  [NotificationKind.friendRequest]: {
+    icon: UserPlus,
+    color: "oklch(0.55 0.16 155)",
+    text: "sent you a friend request",
+  },
+  [NotificationKind.friendAccepted]: {
+    icon: UserCheck,
+    color: "oklch(0.55 0.16 155)",
+    text: "accepted your friend request",
+  },
+  [NotificationKind.groupInvite]: {
+    icon: Users,
+    color: "oklch(0.5 0.2 300)",
+    text: "added you to a group",
+  },
+  [NotificationKind.referralReward]: {
+    icon: Gift,
+    color: "oklch(0.65 0.2 45)",
+    text: "joined with your referral code",
+  },
+  [NotificationKind.listingInquiry]: {
+    icon: ShoppingBag,
+    color: "oklch(0.45 0.18 262)",
+    text: "asked about your listing",
+  },
+  [NotificationKind.general]: {
+    icon: Bell,
+    color: "oklch(0.45 0.18 262)",
+    text: "You have a notification",
+  },
+};
+
+interface NotificationItemProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+}
+
+function NotificationItem({ notification, onOpen }: NotificationItemProps) {
   const markAsRead = useMarkNotificationAsRead();
+  const { getProfile } = useUserProfileCache();
+  const [actorProfile, setActorProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    getProfile(notification.actorId).then(setActorProfile);
+  }, [notification.actorId, getProfile]);
+
+  const { icon: Icon, color, text } = kindConfig[notification.kind];
+  const actorName =
+    actorProfile?.displayName ??
+    `${notification.actorId.toString().slice(0, 12)}...`;
 
   const handleClick = () => {
     if (!notification.read) {
@@ -19,40 +154,30 @@ function NotificationItem({ notification }: { notification: Notification }) {
         onError: () => toast.error("Failed to mark as read"),
       });
     }
+    onOpen(notification);
   };
 
   return (
-    <motion.div
+    <motion.button
+      type="button"
       initial={{ opacity: 0, y: 8 }}
       animate={{ opacity: 1, y: 0 }}
       onClick={handleClick}
       className={cn(
-        "flex items-start gap-3 p-4 rounded-xl transition-all cursor-pointer",
+        "w-full flex items-start gap-3 p-4 rounded-xl transition-all cursor-pointer text-left",
         !notification.read
           ? "bg-card card-shadow hover:card-shadow-hover border border-primary/20"
           : "bg-card/60 hover:bg-card hover:card-shadow border border-transparent",
       )}
     >
-      <div
-        className={cn(
-          "w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5",
-          !notification.read ? "text-white" : "bg-muted",
-        )}
-        style={
-          !notification.read
-            ? {
-                background:
-                  "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
-              }
-            : undefined
-        }
-      >
-        <Bell
-          className={cn(
-            "w-4 h-4",
-            !notification.read ? "text-white" : "text-muted-foreground",
-          )}
-        />
+      <div className="relative flex-shrink-0 mt-0.5">
+        <UserAvatar profile={actorProfile} size="md" />
+        <span
+          className="absolute -bottom-1 -right-1 w-5 h-5 rounded-full flex items-center justify-center ring-2 ring-card"
+          style={{ background: color }}
+        >
+          <Icon className="w-3 h-3 text-white" />
+        </span>
       </div>
       <div className="flex-1 min-w-0">
         <p
@@ -63,14 +188,21 @@ function NotificationItem({ notification }: { notification: Notification }) {
               : "text-muted-foreground",
           )}
         >
-          {notification.message}
+          {notification.kind !== NotificationKind.general && (
+            <>
+              <span className="font-semibold text-foreground">
+                {actorName}
+              </span>{" "}
+            </>
+          )}
+          {text}
         </p>
         <p className="text-xs text-muted-foreground mt-1">
           {formatRelativeTime(notification.timestamp)}
         </p>
       </div>
       {!notification.read && (
-        <div className="flex-shrink-0 flex items-center gap-1">
+        <div className="flex-shrink-0 flex items-center gap-1 self-center">
           <div
             className="w-2.5 h-2.5 rounded-full"
             style={{ background: "oklch(0.45 0.18 262)" }}
@@ -80,12 +212,65 @@ function NotificationItem({ notification }: { notification: Notification }) {
       {notification.read && (
         <Check className="w-3.5 h-3.5 text-muted-foreground/50 flex-shrink-0 mt-1" />
       )}
-    </motion.div>
+    </motion.button>
   );
 }
 
-export function NotificationsPage() {
+interface NotificationsPageProps {
+  onOpenPage: (page: "feed" | "friends" | "invite") => void;
+  onOpenConversation: (user: Principal) => void;
+  onOpenGroup: (groupId: bigint) => void;
+}
+
+export function NotificationsPage({
+  onOpenPage,
+  onOpenConversation,
+  onOpenGroup,
+}: NotificationsPageProps) {
   const { data: notifications = [], isLoading } = useGetNotifications();
+  const [profileUser, setProfileUser] = useState<Principal | null>(null);
+  const [openPostId, setOpenPostId] = useState<bigint | null>(null);
+
+  const handleOpen = (notification: Notification) => {
+    switch (notification.kind) {
+      case NotificationKind.like:
+      case NotificationKind.comment:
+      case NotificationKind.reaction:
+      case NotificationKind.mention:
+      case NotificationKind.reply:
+      case NotificationKind.commentLike:
+      case NotificationKind.repost:
+      case NotificationKind.quote:
+        if (notification.postId !== undefined) {
+          setOpenPostId(notification.postId);
+        } else {
+          onOpenPage("feed");
+        }
+        break;
+      case NotificationKind.friendRequest:
+      case NotificationKind.followRequest:
+        onOpenPage("friends");
+        break;
+      case NotificationKind.follow:
+      case NotificationKind.followAccepted:
+      case NotificationKind.friendAccepted:
+        setProfileUser(notification.actorId);
+        break;
+      case NotificationKind.groupInvite:
+        if (notification.groupId !== undefined) {
+          onOpenGroup(notification.groupId);
+        }
+        break;
+      case NotificationKind.referralReward:
+        onOpenPage("invite");
+        break;
+      case NotificationKind.listingInquiry:
+        onOpenConversation(notification.actorId);
+        break;
+      case NotificationKind.general:
+        break;
+    }
+  };
 
   const unreadCount = notifications.filter((n) => !n.read).length;
   const sortedNotifications = [...notifications].sort((a, b) => {
@@ -157,9 +342,22 @@ export function NotificationsPage() {
           <NotificationItem
             key={notification.id.toString()}
             notification={notification}
+            onOpen={handleOpen}
           />
         ))}
       </div>
+
+      <PostDialog postId={openPostId} onClose={() => setOpenPostId(null)} />
+
+      <UserProfileModal
+        open={!!profileUser}
+        onClose={() => setProfileUser(null)}
+        principal={profileUser}
+        onMessage={(user) => {
+          setProfileUser(null);
+          onOpenConversation(user);
+        }}
+      />
     </div>
   );
 }
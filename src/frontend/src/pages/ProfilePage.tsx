@@ -16,6 +16,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import type { Principal } from "@icp-sdk/core/principal";
 import {
+  Bookmark,
   Briefcase,
   Camera,
   Edit3,
@@ -37,14 +38,19 @@ import { useRef, useState } from "react";
 import { Suspense, lazy, useEffect } from "react";
 import { toast } from "sonner";
 import { ExternalBlob, type UserProfile } from "../backend";
+import { CollectionNameDialog } from "../components/CollectionNameDialog";
 import { PostCard } from "../components/PostCard";
 import { UserAvatar } from "../components/UserAvatar";
 import { useActor } from "../hooks/useActor";
 import { useInternetIdentity } from "../hooks/useInternetIdentity";
 import type { StoreListing } from "../hooks/useQueries";
 import {
+  useCreateBookmarkCollection,
   useCreateStoreListing,
+  useDeleteBookmarkCollection,
   useDeleteStoreListing,
+  useGetBookmarkCollections,
+  useGetBookmarks,
   useGetCallerUserProfile,
   useGetFollowers,
   useGetFollowing,
@@ -52,6 +58,7 @@ import {
   useGetMyUsername,
   useGetPostsByUser,
   useGetStoreListingsByUser,
+  useRenameBookmarkCollection,
   useSaveProfile,
 } from "../hooks/useQueries";
 import { useUserProfileCache } from "../hooks/useUserProfileCache";
@@ -91,6 +98,198 @@ function FriendItem({ principal }: { principal: Principal }) {
   );
 }
 
+interface SavedPostsProps {
+  onOpenHashtag?: (tag: string) => void;
+}
+
+// The caller's bookmarks, filterable by collection. Only ever shown on the
+// caller's own profile.
+function SavedPosts({ onOpenHashtag }: SavedPostsProps) {
+  const [collectionId, setCollectionId] = useState<bigint | null>(null);
+  const [dialog, setDialog] = useState<"create" | "rename" | null>(null);
+  const { data: collections = [] } = useGetBookmarkCollections();
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useGetBookmarks(collectionId);
+  const createCollection = useCreateBookmarkCollection();
+  const renameCollection = useRenameBookmarkCollection();
+  const deleteCollection = useDeleteBookmarkCollection();
+  const posts = data?.pages.flatMap((page) => page.posts) ?? [];
+  const selected = collections.find(
+    ({ collection }) => collection.id === collectionId,
+  )?.collection;
+
+  const handleCreate = (name: string) => {
+    createCollection.mutate(name, {
+      onSuccess: (id) => {
+        setDialog(null);
+        setCollectionId(id);
+      },
+      onError: () => toast.error("Failed to create collection"),
+    });
+  };
+
+  const handleRename = (name: string) => {
+    if (collectionId === null) return;
+    renameCollection.mutate(
+      { collectionId, name },
+      {
+        onSuccess: () => setDialog(null),
+        onError: () => toast.error("Failed to rename collection"),
+      },
+    );
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    deleteCollection.mutate(selected.id, {
+      onSuccess: () => {
+        toast.success(`Deleted ${selected.name}. Its posts are still saved.`);
+        setCollectionId(null);
+      },
+      onError: () => toast.error("Failed to delete collection"),
+    });
+  };
+
+  const chip = (active: boolean) =>
+    cn(
+      "flex-shrink-0 px-3 py-1 rounded-full text-xs font-semibold transition-colors",
+      active
+        ? "bg-primary text-primary-foreground"
+        : "bg-muted/70 text-muted-foreground hover:bg-muted hover:text-foreground",
+    );
+
+  return (
+    <>
+      <div className="flex items-center gap-2 overflow-x-auto pb-1">
+        <button
+          type="button"
+          onClick={() => setCollectionId(null)}
+          className={chip(collectionId === null)}
+        >
+          All
+        </button>
+        {collections.map(({ collection, count }) => (
+          <button
+            key={collection.id.toString()}
+            type="button"
+            onClick={() => setCollectionId(collection.id)}
+            className={chip(collection.id === collectionId)}
+          >
+            {collection.name} · {count.toString()}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDialog("create")}
+          className={cn(chip(false), "border border-dashed border-border")}
+        >
+          + New
+        </button>
+      </div>
+
+      {selected && (
+        <div className="flex items-center justify-between">
+          <p className="font-display font-semibold text-sm truncate">
+            {selected.name}
+          </p>
+          <div className="flex items-center">
+            <button
+              type="button"
+              onClick={() => setDialog("rename")}
+              className="text-muted-foreground/50 hover:text-foreground transition-colors p-1.5 rounded-lg hover:bg-muted"
+              title="Rename collection"
+            >
+              <Edit3 className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={deleteCollection.isPending}
+              className="text-muted-foreground/50 hover:text-destructive transition-colors p-1.5 rounded-lg hover:bg-destructive/10"
+              title="Delete collection"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-32 rounded-2xl" />
+          ))}
+        </div>
+      )}
+
+      {!isLoading && posts.length === 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 12 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="post-card p-10 text-center"
+        >
+          <div
+            className="w-14 h-14 rounded-2xl mx-auto mb-3 flex items-center justify-center"
+            style={{ background: "oklch(0.94 0.04 250)" }}
+          >
+            <Bookmark
+              className="w-7 h-7"
+              style={{ color: "oklch(0.45 0.18 262)" }}
+            />
+          </div>
+          <p className="font-display font-semibold text-foreground">
+            {selected ? "This collection is empty" : "No saved posts yet"}
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Tap the bookmark on a post to save it for later.
+          </p>
+        </motion.div>
+      )}
+
+      {posts.map((post) => (
+        <PostCard
+          key={post.id.toString()}
+          post={post}
+          onHashtagClick={onOpenHashtag}
+        />
+      ))}
+
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="w-full rounded-xl"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            "Load more"
+          )}
+        </Button>
+      )}
+
+      <CollectionNameDialog
+        open={dialog === "create"}
+        title="New collection"
+        submitLabel="Create"
+        isPending={createCollection.isPending}
+        onSubmit={handleCreate}
+        onClose={() => setDialog(null)}
+      />
+      <CollectionNameDialog
+        open={dialog === "rename"}
+        title="Rename collection"
+        initialName={selected?.name}
+        submitLabel="Rename"
+        isPending={renameCollection.isPending}
+        onSubmit={handleRename}
+        onClose={() => setDialog(null)}
+      />
+    </>
+  );
+}
+
 interface EditProfileModalProps {
   open: boolean;
   onClose: () => void;
@@ -165,6 +364,7 @@ function EditProfileModal({
         displayName: displayName.trim(),
         bio: bio.trim(),
         isProfessional,
+        isPrivate: currentProfile.isPrivate,
       };
       if (avatar) profileToSave.avatar = avatar;
       if (coverPhoto) profileToSave.coverPhoto = coverPhoto;
@@ -662,9 +862,13 @@ function ProfileAddItemModal({ open, onClose }: ProfileAddItemModalProps) {
 
 interface ProfilePageProps {
   onOpenSettings?: () => void;
+  onOpenHashtag?: (tag: string) => void;
 }
 
-export function ProfilePage({ onOpenSettings }: ProfilePageProps) {
+export function ProfilePage({
+  onOpenSettings,
+  onOpenHashtag,
+}: ProfilePageProps) {
   const { identity } = useInternetIdentity();
   const myPrincipal = identity?.getPrincipal() ?? null;
   const { data: profile, isLoading: profileLoading } =
@@ -683,7 +887,11 @@ export function ProfilePage({ onOpenSettings }: ProfilePageProps) {
   const { data: storeListings = [], isLoading: listingsLoading } =
     useGetStoreListingsByUser(myPrincipal);
 
+  // Newest first, with the pinned post ahead of the rest
+  const pinnedPostId = profile?.pinnedPostId;
   const sortedPosts = [...posts].sort((a, b) => {
+    if (a.id === pinnedPostId) return -1;
+    if (b.id === pinnedPostId) return 1;
     const tA = Number(a.timestamp / 1_000_000n);
     const tB = Number(b.timestamp / 1_000_000n);
     return tB - tA;
@@ -848,6 +1056,13 @@ export function ProfilePage({ onOpenSettings }: ProfilePageProps) {
             <UserPlus className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
             <span>Followers</span>
           </TabsTrigger>
+          <TabsTrigger
+            value="saved"
+            className="flex-1 rounded-lg gap-1.5 text-xs sm:text-sm"
+          >
+            <Bookmark className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+            <span>Saved</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="posts" className="mt-4 space-y-3">
@@ -894,7 +1109,12 @@ export function ProfilePage({ onOpenSettings }: ProfilePageProps) {
           )}
 
           {sortedPosts.map((post) => (
-            <PostCard key={post.id.toString()} post={post} />
+            <PostCard
+              key={post.id.toString()}
+              post={post}
+              pinned={post.id === pinnedPostId}
+              onHashtagClick={onOpenHashtag}
+            />
           ))}
         </TabsContent>
 
@@ -1058,6 +1278,10 @@ export function ProfilePage({ onOpenSettings }: ProfilePageProps) {
             <FriendItem key={principal.toString()} principal={principal} />
           ))}
         </TabsContent>
+
+        <TabsContent value="saved" className="mt-4 space-y-3">
+          <SavedPosts onOpenHashtag={onOpenHashtag} />
+        </TabsContent>
       </Tabs>
 
       {/* Edit Profile Modal */}
@@ -1070,6 +1294,7 @@ export function ProfilePage({ onOpenSettings }: ProfilePageProps) {
               displayName: myUsername ?? "",
               bio: "",
               isProfessional: false,
+              isPrivate: false,
             }
           }
         />
@@ -39,6 +39,7 @@ import {
   useDeleteStoreListing,
   useGetAllStoreListings,
   useGetStoreListingsByUser,
+  useSendListingInquiry,
 } from "../hooks/useQueries";
 import { useUserProfileCache } from "../hooks/useUserProfileCache";
 
@@ -262,12 +263,103 @@ function AddItemModal({ open, onClose }: AddItemModalProps) {
   );
 }
 
+// ── Inquiry Modal ─────────────────────────────────────────────────────────
+
+interface InquiryModalProps {
+  listing: StoreListing | null;
+  onClose: () => void;
+  onSent: (seller: Principal) => void;
+}
+
+function InquiryModal({ listing, onClose, onSent }: InquiryModalProps) {
+  const [content, setContent] = useState("");
+  const sendInquiry = useSendListingInquiry();
+
+  useEffect(() => {
+    if (listing) {
+      setContent(`Hi! Is "${listing.title}" still available?`);
+    }
+  }, [listing]);
+
+  const handleSend = async () => {
+    if (!listing || !content.trim()) return;
+    try {
+      await sendInquiry.mutateAsync({
+        listingId: listing.id,
+        seller: listing.seller,
+        content: content.trim(),
+      });
+      toast.success("Message sent to the seller");
+      onClose();
+      onSent(listing.seller);
+    } catch {
+      toast.error("Failed to send message");
+    }
+  };
+
+  return (
+    <Dialog open={!!listing} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-display flex items-center gap-2">
+            <MessageCircle className="w-5 h-5" />
+            Ask about this item
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Label htmlFor="inquiry-content" className="font-semibold">
+            {listing?.title}
+          </Label>
+          <Textarea
+            id="inquiry-content"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            maxLength={500}
+            rows={3}
+            className="rounded-xl resize-none"
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={sendInquiry.isPending || !content.trim()}
+            className="rounded-xl font-semibold"
+            style={{
+              background:
+                "linear-gradient(135deg, oklch(0.42 0.18 265), oklch(0.52 0.18 250))",
+              color: "white",
+            }}
+          >
+            {sendInquiry.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <MessageCircle className="mr-2 h-4 w-4" />
+                Send
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // ── Listing Card ──────────────────────────────────────────────────────────
 
 interface ListingCardProps {
   listing: StoreListing;
   isOwner: boolean;
   onDelete?: () => void;
+  onInquire?: (listing: StoreListing) => void;
   onOpenSellerProfile: (seller: Principal) => void;
 }
 
@@ -515,6 +607,7 @@ function ListingCard({
   listing,
   isOwner,
   onDelete,
+  onInquire,
   onOpenSellerProfile,
 }: ListingCardProps) {
   const deleteListingMutation = useDeleteStoreListing();
@@ -603,6 +696,16 @@ function ListingCard({
           seller={listing.seller}
           onOpenProfile={onOpenSellerProfile}
         />
+        {!isOwner && onInquire && (
+          <button
+            type="button"
+            onClick={() => onInquire(listing)}
+            className="w-full flex items-center justify-center gap-1.5 mt-1 py-1.5 rounded-lg text-xs font-semibold text-primary bg-primary/5 hover:bg-primary/10 transition-colors"
+          >
+            <MessageCircle className="w-3.5 h-3.5" />
+            Ask seller
+          </button>
+        )}
       </div>
     </motion.div>
   );
@@ -620,6 +723,9 @@ export function ShopPage({ onMessageSeller }: ShopPageProps) {
   const [addOpen, setAddOpen] = useState(false);
   const [sellerProfileOpen, setSellerProfileOpen] = useState(false);
   const [selectedSeller, setSelectedSeller] = useState<Principal | null>(null);
+  const [inquiryListing, setInquiryListing] = useState<StoreListing | null>(
+    null,
+  );
 
   const myPrincipal = identity?.getPrincipal();
 
@@ -735,6 +841,7 @@ export function ShopPage({ onMessageSeller }: ShopPageProps) {
               key={listing.id.toString()}
               listing={listing}
               isOwner={myPrincipal?.toString() === listing.seller.toString()}
+              onInquire={identity ? setInquiryListing : undefined}
               onOpenSellerProfile={handleOpenSellerProfile}
             />
           ))}
@@ -744,6 +851,13 @@ export function ShopPage({ onMessageSeller }: ShopPageProps) {
       {/* Add Item Modal */}
       <AddItemModal open={addOpen} onClose={() => setAddOpen(false)} />
 
+      {/* Inquiry Modal */}
+      <InquiryModal
+        listing={inquiryListing}
+        onClose={() => setInquiryListing(null)}
+        onSent={handleMessage}
+      />
+
       {/* Seller Profile Modal */}
       {selectedSeller && (
         <SellerProfileModal
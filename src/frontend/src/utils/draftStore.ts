@@ -0,0 +1,61 @@
+/**
+ * Post drafts kept in IndexedDB so they survive reloads. IndexedDB is used
+ * rather than localStorage because drafts carry the picked image and video
+ * files, which it can store as-is.
+ */
+
+const DB_NAME = "socialspace-drafts";
+const STORE_NAME = "drafts";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Loads the draft saved under `key`, or null when there is none.
+ */
+export async function loadDraft<T>(key: string): Promise<T | null> {
+  const draft = await withStore<T | undefined>("readonly", (store) =>
+    store.get(key),
+  );
+  return draft ?? null;
+}
+
+/**
+ * Saves a draft under `key`, replacing any earlier one.
+ */
+export async function saveDraft<T>(key: string, draft: T): Promise<void> {
+  await withStore("readwrite", (store) => store.put(draft, key));
+}
+
+/**
+ * Removes the draft saved under `key`.
+ */
+export async function clearDraft(key: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(key));
+}
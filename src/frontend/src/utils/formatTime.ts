@@ -44,3 +44,35 @@ export function formatFullDate(timestamp: bigint): string {
     minute: "2-digit",
   });
 }
+
+/**
+ * Format the time until a future timestamp (e.g., "3h left").
+ */
+export function formatTimeLeft(timestamp: bigint): string {
+  const diffMins = Math.floor(
+    (timeToDate(timestamp).getTime() - Date.now()) / 60_000,
+  );
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return "less than a minute left";
+  if (diffMins < 60) return `${diffMins}m left`;
+  if (diffHours < 24) return `${diffHours}h left`;
+  return `${diffDays}d left`;
+}
+
+/**
+ * Format a timestamp as the local-time value of a datetime-local input.
+ */
+export function toDateTimeInputValue(timestamp: bigint): string {
+  const date = timeToDate(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Convert a datetime-local input value to Motoko Time (bigint nanoseconds).
+ */
+export function fromDateTimeInputValue(value: string): bigint {
+  return BigInt(new Date(value).getTime()) * 1_000_000n;
+}